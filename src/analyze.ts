@@ -0,0 +1,102 @@
+import path from 'path';
+import type { LanguageModelV2 } from '@openrouter/ai-sdk-provider';
+import { prrs, estimateMaxChunkChars, type PRRSOptions, type PRRSSummaries } from './prrs.js';
+import { defaultModelKey, getModelDefinition } from './models.js';
+import { createLensRegistry, getLens, lensFingerprint, type LensDefinition } from './lenses.js';
+import { getRepoState, type RepoState } from './incremental.js';
+import { RESULT_VERSION } from './schema.js';
+import type { UsageReport } from './usage.js';
+
+// Library entry point: one options object, an injectable model, cancellation, hooks, and a
+// versioned envelope (provenance + summaries) described by resultSchema (schema.ts).
+
+export const PRRS_VERSION = '1.0.0';
+
+export interface AnalyzeOptions extends Omit<PRRSOptions, 'model' | 'onUsage'> {
+  path: string;
+  lenses?: string[];                   // default ['architecture']
+  model?: string | LanguageModelV2;    // modelMap key / provider:modelId, or an AI SDK model instance
+  modelName?: string;                  // name of an injected model in cache keys and the envelope (default provider:modelId)
+  depth?: number;                      // default 3
+}
+
+export interface AnalysisResult {
+  version: typeof RESULT_VERSION;
+  generator: { name: 'prrs'; version: string };
+  createdAt: string;
+  root: string;                        // absolute
+  model: { key: string; provider?: string; modelId?: string; injected?: boolean };
+  repo?: RepoState;
+  lenses: Record<string, { fingerprint: string; definition: LensDefinition }>;
+  options: {
+    depth: number;
+    maxChunkChars: number;
+    symbols: boolean;
+    metadata: boolean;
+    singlePass?: boolean;
+    include?: string[];
+    exclude?: string[];
+    hooks?: Array<'prompt' | 'node'>;
+  };
+  usage: UsageReport;
+  summaries: PRRSSummaries;
+}
+
+function describeModel(model: AnalyzeOptions['model'], modelName?: string): AnalysisResult['model'] {
+  if (model && typeof model === 'object') {
+    return { key: modelName ?? `${model.provider}:${model.modelId}`, provider: model.provider, modelId: model.modelId, injected: true };
+  }
+  const key = model ?? defaultModelKey;
+  const { provider, modelId } = getModelDefinition(key);
+  return { key, provider, modelId };
+}
+
+export async function analyze(options: AnalyzeOptions): Promise<AnalysisResult> {
+  const { path: folderPath, lenses = ['architecture'], model, modelName, depth = 3, ...runOptions } = options;
+  if (!Number.isInteger(depth) || depth < 1) throw new Error(`depth must be a positive integer (got ${depth})`);
+  const described = describeModel(model, modelName);
+  const injected = model && typeof model === 'object' ? model : undefined;
+  const hooks = (['prompt', 'node'] as const).filter(name => options.hooks?.[name]);
+  const warn = options.onProgress ? (message: string) => options.onProgress!({ type: 'warning', message }) : undefined;
+  const maxChunkChars = options.maxChunkChars ?? await estimateMaxChunkChars(injected ? undefined : described.key, false, warn);
+
+  let usage: UsageReport | undefined;
+  const summaries = await prrs(folderPath, lenses, described.key, depth, {
+    ...runOptions,
+    model: injected,
+    maxChunkChars,
+    // Hooks are not part of cache keys: their runs do not share the cache unless asked to
+    cache: options.cache ?? hooks.length === 0,
+    onUsage: report => { usage = report; },
+  });
+
+  const registry = await createLensRegistry(options.lensesDir);
+  const lensConfig: AnalysisResult['lenses'] = {};
+  for (const lens of lenses) {
+    const definition = getLens(lens, registry);
+    lensConfig[lens] = { fingerprint: lensFingerprint(definition), definition };
+  }
+  const repo = await getRepoState(folderPath);
+
+  return {
+    version: RESULT_VERSION,
+    generator: { name: 'prrs', version: PRRS_VERSION },
+    createdAt: new Date().toISOString(),
+    root: path.resolve(folderPath),
+    model: described,
+    ...(repo ? { repo } : {}),
+    lenses: lensConfig,
+    options: {
+      depth,
+      maxChunkChars,
+      symbols: !!options.symbols,
+      metadata: options.metadata !== false,
+      ...(options.singlePass && lenses.length > 1 ? { singlePass: true } : {}),
+      ...(options.include?.length ? { include: options.include } : {}),
+      ...(options.exclude?.length ? { exclude: options.exclude } : {}),
+      ...(hooks.length ? { hooks } : {}),
+    },
+    usage: usage!,
+    summaries,
+  };
+}
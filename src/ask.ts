@@ -0,0 +1,181 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { LanguageModelV2 } from '@openrouter/ai-sdk-provider';
+import { callLLM, type PRRSSummaries, type SummaryNode } from './prrs.js';
+import { splitFileIntoChunks } from './chunkers.js';
+import { parseRankingResponse } from './ranking.js';
+import { overlapScore } from './tokenize.js';
+import { summariesOf } from './schema.js';
+import type { UsageMeter } from './usage.js';
+
+// prrs ask: answer a question from a previous --output json result. Walks down each lens tree,
+// letting the model pick the relevant children at every level, pulls in the code of the files
+// (or symbols) it lands on, then answers with numbered citations.
+
+export interface AskOptions {
+  lenses?: string[];       // default: every lens of the result
+  code?: boolean;          // pull in file chunks of the selected files (default true)
+  breadth?: number;        // children kept per expanded node (default 3)
+  maxNodes?: number;       // expanded nodes per lens, i.e. selection calls (default 8)
+  maxChunkChars?: number;  // code budget per excerpt (default 4000); twice that per question
+  meter?: UsageMeter;
+  warn?: (message: string) => void;   // default console.warn
+}
+
+export interface Citation {
+  ref: number;
+  path: string;
+  lens: string;
+  kind: 'summary' | 'code';
+  startLine?: number;
+  endLine?: number;
+}
+
+export interface AskResult {
+  question: string;
+  answer: string;
+  citations: Citation[];   // sources the answer cites, in order of first citation
+  sources: Citation[];     // every source given to the model
+  visited: string[];       // paths of the nodes the walk selected
+}
+
+const DEFAULT_BREADTH = 3;
+const DEFAULT_MAX_NODES = 8;
+const SUMMARY_PREVIEW = 300;
+const SOURCE_SUMMARY_CHARS = 1500;
+const EXCERPTS_PER_FILE = 2;
+
+// Lens trees of a result file: `--output json` or an analyze() envelope (non-tree keys such as "usage" are dropped)
+export async function loadSummaries(resultFile: string): Promise<PRRSSummaries> {
+  const summaries = summariesOf(await fs.readJson(resultFile));
+  if (!Object.keys(summaries).length) throw new Error(`${resultFile}: not a PRRS JSON result (no lens tree found)`);
+  return summaries;
+}
+
+const usable = (node: SummaryNode) => !node.status || node.status === 'ok';
+
+const nodeLabel = (node: SummaryNode) =>
+  node.symbol ? `${node.symbol.signature} in ${node.path?.split('#')[0]}` : `${node.path ?? 'root'} (${node.type ?? 'node'})`;
+
+export function selectionPrompt(question: string, children: SummaryNode[], lens: string, breadth: number): string {
+  const lines = children.map((c, i) => `${i}) ${nodeLabel(c)}: ${c.summary.slice(0, SUMMARY_PREVIEW).replace(/\s+/g, ' ')}`);
+  return `Question: "${question}"\n\nPick the children most likely to contain the answer, judging by their summaries from "${lens}" perspective. Respond with ONLY a JSON array of at most ${breadth} indices, most relevant first (e.g. [2, 0]); [] if none is relevant.\n\nChildren (index : name : summary):\n${lines.join('\n')}`;
+}
+
+// Indices the model picked; lexical overlap with the question when its answer is unusable
+async function selectChildren(question: string, children: SummaryNode[], lens: string, breadth: number, model: LanguageModelV2, { meter, warn = console.warn }: AskOptions): Promise<SummaryNode[]> {
+  if (children.length <= 1) return children;
+  let picked: number[] | undefined;
+  try {
+    const raw = parseRankingResponse(await callLLM(selectionPrompt(question, children, lens, breadth), model, meter));
+    if (Array.isArray(raw)) {
+      picked = [...new Set(raw.map(Number))].filter(i => Number.isInteger(i) && i >= 0 && i < children.length);
+    }
+  } catch (error: any) {
+    warn(`ask: child selection failed (${error.message}), using keyword overlap`);
+  }
+  if (!picked) {
+    picked = children.map((c, i) => ({ i, score: overlapScore(question, `${c.path ?? ''} ${c.summary}`) }))
+      .filter(c => c.score > 0)
+      .sort((a, b) => b.score - a.score || a.i - b.i)
+      .map(c => c.i);
+  }
+  return picked.slice(0, breadth).map(i => children[i]);
+}
+
+// Breadth-limited walk from the root: returns the selected nodes, root first
+async function walkLens(question: string, root: SummaryNode, lens: string, model: LanguageModelV2, options: AskOptions): Promise<SummaryNode[]> {
+  const breadth = options.breadth ?? DEFAULT_BREADTH;
+  let budget = options.maxNodes ?? DEFAULT_MAX_NODES;
+  const selected: SummaryNode[] = [root];
+  let frontier = [root];
+  while (frontier.length && budget > 0) {
+    const next: SummaryNode[] = [];
+    for (const node of frontier) {
+      const children = node.children.filter(c => usable(c) && c.summary && c.path);  // static placeholders have no path
+      if (!children.length || budget-- <= 0) continue;
+      next.push(...await selectChildren(question, children, lens, breadth, model, options));
+    }
+    selected.push(...next);
+    frontier = next;
+  }
+  return selected;
+}
+
+interface Source extends Citation {
+  text: string;
+}
+
+// Code for the selected leaves: a symbol's own lines, or the file chunks closest to the question
+async function codeSources(question: string, leaves: Array<{ node: SummaryNode; lens: string }>, maxChunkChars: number): Promise<Omit<Source, 'ref'>[]> {
+  const sources: Omit<Source, 'ref'>[] = [];
+  const seen = new Set<string>();
+  let budget = maxChunkChars * 2;
+  for (const { node, lens } of leaves) {
+    if (node.type !== 'file' && node.type !== 'symbol') continue;
+    const filePath = node.path?.split('#')[0];
+    if (!filePath || !fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) continue;
+    const content = await fs.readFile(filePath, 'utf8');
+    const excerpts = node.symbol
+      ? [{ text: content.split('\n').slice(node.symbol.startLine - 1, node.symbol.endLine).join('\n'), startLine: node.symbol.startLine, endLine: node.symbol.endLine }]
+      : splitFileIntoChunks(content, filePath, 10, maxChunkChars)
+        .map((chunk, i) => ({ chunk, i, score: overlapScore(question, chunk.text) }))
+        .sort((a, b) => b.score - a.score || a.i - b.i)
+        .slice(0, EXCERPTS_PER_FILE)
+        .sort((a, b) => a.i - b.i)
+        .map(c => c.chunk);
+    for (const excerpt of excerpts) {
+      const key = `${filePath}:${excerpt.startLine}`;
+      if (seen.has(key) || budget <= 0) continue;
+      seen.add(key);
+      const text = excerpt.text.slice(0, Math.min(maxChunkChars, budget));
+      budget -= text.length;
+      sources.push({ path: filePath, lens, kind: 'code', startLine: excerpt.startLine, endLine: excerpt.endLine, text });
+    }
+  }
+  return sources;
+}
+
+const describe = (s: Citation) =>
+  s.kind === 'code' ? `${s.path} L${s.startLine}-${s.endLine} (code)` : `${s.path} (${s.lens} summary)`;
+
+export function answerPrompt(question: string, sources: Source[]): string {
+  const blocks = sources.map(s => `[${s.ref}] ${describe(s)}\n${s.text}`);
+  return `Answer the question about this codebase using ONLY the sources below (summaries from a previous analysis and code excerpts). Cite the sources you rely on inline as [n]. If they do not contain the answer, say so and name the most likely places to look.\n\nQuestion: ${question}\n\nSources:\n${blocks.join('\n\n')}`;
+}
+
+export async function askSummaries(question: string, summaries: PRRSSummaries, model: LanguageModelV2, options: AskOptions = {}): Promise<AskResult> {
+  const lenses = options.lenses?.length ? options.lenses : Object.keys(summaries);
+  for (const lens of lenses) {
+    if (!summaries[lens]) throw new Error(`Lens "${lens}" not found in the result (available: ${Object.keys(summaries).join(', ')})`);
+  }
+
+  const sources: Source[] = [];
+  const visited: string[] = [];
+  const leaves: Array<{ node: SummaryNode; lens: string }> = [];
+  const add = (source: Omit<Source, 'ref'>) => sources.push({ ...source, ref: sources.length + 1 });
+  for (const lens of lenses) {
+    const selected = await walkLens(question, summaries[lens], lens, model, options);
+    for (const node of selected) {
+      if (!node.summary || !usable(node)) continue;
+      visited.push(node.path ?? lens);
+      add({ path: node.path ?? '.', lens, kind: 'summary', text: node.summary.slice(0, SOURCE_SUMMARY_CHARS) });
+    }
+    // Only the deepest selections carry code: folders are covered by their children
+    selected.filter(node => !node.children.some(child => selected.includes(child))).forEach(node => leaves.push({ node, lens }));
+  }
+  // Code comes once per file/symbol, whatever the number of lenses that led to it
+  if (options.code !== false) (await codeSources(question, leaves, options.maxChunkChars ?? 4000)).forEach(add);
+
+  const answer = await callLLM(answerPrompt(question, sources), model, options.meter);
+  const cited = [...answer.matchAll(/\[(\d+)\]/g)].map(m => Number(m[1]));
+  const citations = [...new Set(cited)].map(ref => sources[ref - 1]).filter(Boolean).map(({ text: _text, ...citation }) => citation);
+  return { question, answer, citations, sources: sources.map(({ text: _text, ...source }) => source), visited: [...new Set(visited)] };
+}
+
+export function formatAnswer(result: AskResult): string {
+  const shown = result.citations.length ? result.citations : result.sources;
+  const where = (c: Citation) => (c.kind === 'code' ? `${path.relative(process.cwd(), c.path) || c.path}:${c.startLine}-${c.endLine}` : path.relative(process.cwd(), c.path) || c.path);
+  const lines = shown.map(c => `  [${c.ref}] ${where(c)} — ${c.kind === 'code' ? 'code' : `${c.lens} summary`}`);
+  return `${result.answer}\n\n${result.citations.length ? 'Sources:' : 'Sources consulted (none cited):'}\n${lines.join('\n')}`;
+}
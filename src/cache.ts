@@ -0,0 +1,113 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { SummaryNode } from './prrs.js';
+import type { Finding } from './findings.js';
+import type { SymbolInfo } from './symbols.js';
+
+// Bump whenever a hard-coded prompt in prrs.ts changes: it invalidates every cached summary.
+// (Lens templates are covered by the lens fingerprint passed as `lens`.)
+export const PROMPT_TEMPLATE_VERSION = 3;
+
+export const DEFAULT_CACHE_DIR = '.prrs-cache';
+
+// What a cache hit restores on the node
+export interface CachedSummary {
+  summary: string;
+  findings?: Finding[];
+  symbols?: Array<{ symbol: SymbolInfo; summary: string }>;  // --symbols: the file's symbol summaries
+}
+
+interface CacheEntry extends CachedSummary {
+  lens: string;
+  path?: string;
+  createdAt: string;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  writes: number;
+}
+
+// Content-addressed store of LLM summaries.
+// File key = content hash + lens + model + chunk size + prompt version; folder key = its children's keys.
+export interface SummaryCache {
+  dir: string;
+  stats: CacheStats;
+  fileKey(content: string, lens: string, maxChunkChars: number): string;
+  folderKey(children: SummaryNode[], lens: string): string | undefined;
+  get(key: string): Promise<CachedSummary | undefined>;
+  has(key: string): Promise<boolean>;   // lookahead, not counted in the stats (single-pass rankings)
+  set(key: string, value: CachedSummary, lens: string, nodePath?: string): Promise<void>;
+  remember(node: SummaryNode, key: string): SummaryNode;
+  carryKey(from: SummaryNode, to: SummaryNode): SummaryNode;   // a rewritten node keeps the key of the original
+}
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+export async function clearCache(dir = DEFAULT_CACHE_DIR): Promise<void> {
+  await fs.remove(dir);
+}
+
+export function createSummaryCache(modelKey: string, dir = DEFAULT_CACHE_DIR): SummaryCache {
+  // Keys stay off the SummaryNode itself so JSON output is unchanged
+  const keys = new WeakMap<SummaryNode, string>();
+  const stats: CacheStats = { hits: 0, misses: 0, writes: 0 };
+  const entryPath = (key: string) => path.join(dir, key.slice(0, 2), `${key}.json`);
+
+  return {
+    dir,
+    stats,
+
+    fileKey(content, lens, maxChunkChars) {
+      return sha256(JSON.stringify(['file', PROMPT_TEMPLATE_VERSION, modelKey, lens, maxChunkChars, sha256(content)]));
+    },
+
+    // Undefined when a child has no key (e.g. it failed): such folders are never cached
+    folderKey(children, lens) {
+      const childKeys: string[] = [];
+      for (const child of children) {
+        const key = keys.get(child);
+        if (!key) return undefined;
+        childKeys.push(`${path.basename(child.path || '')}:${key}`);
+      }
+      return sha256(JSON.stringify(['folder', PROMPT_TEMPLATE_VERSION, modelKey, lens, childKeys]));
+    },
+
+    async get(key) {
+      try {
+        const entry: CacheEntry = await fs.readJson(entryPath(key));
+        stats.hits++;
+        const { summary, findings, symbols } = entry;
+        return { summary, ...(findings ? { findings } : {}), ...(symbols ? { symbols } : {}) };
+      } catch {
+        stats.misses++;
+        return undefined;
+      }
+    },
+
+    has(key) {
+      return fs.pathExists(entryPath(key));
+    },
+
+    async set(key, value, lens, nodePath) {
+      const entry: CacheEntry = { ...value, lens, path: nodePath, createdAt: new Date().toISOString() };
+      await fs.outputJson(entryPath(key), entry);
+      stats.writes++;
+    },
+
+    remember(node, key) {
+      keys.set(node, key);
+      return node;
+    },
+
+    carryKey(from, to) {
+      const key = keys.get(from);
+      if (key) keys.set(to, key);
+      return to;
+    },
+  };
+}
@@ -0,0 +1,318 @@
+import path from 'path';
+import ts from 'typescript';
+
+// Chunking per file type. A chunker only finds the top-level units of a file (declarations,
+// keys, sections); splitFileIntoChunks turns them into line-anchored chunks: consecutive
+// one-line units (imports, simple keys) are merged, oversized units are split by size,
+// and contiguous chunks are regrouped when there are more than maxChunks.
+
+export interface Chunk {
+  text: string;
+  startLine: number;   // 1-based, inclusive
+  endLine: number;
+}
+
+// A top-level unit: `start` includes the comments/decorators attached to it, `head` is its first own line (0-based)
+export interface ChunkUnit {
+  start: number;
+  head: number;
+}
+
+export interface Chunker {
+  name: string;
+  description: string;
+  extensions: string[];   // lower-case, with the dot
+  units(content: string, fileName: string): ChunkUnit[];
+}
+
+const registry = new Map<string, Chunker>();
+
+export function registerChunker(chunker: Chunker): void {
+  registry.set(chunker.name, chunker);
+}
+
+export function listChunkers(): Chunker[] {
+  return [...registry.values()];
+}
+
+// Chunker for a file, by extension; plain text when none claims it
+export function getChunker(filePath: string): Chunker {
+  const ext = path.extname(filePath).toLowerCase();
+  return listChunkers().find(c => c.extensions.includes(ext)) ?? registry.get('text')!;
+}
+
+/**
+ * Split a large piece of text into smaller chunks trying to respect statement boundaries.
+ * Falls back to blunt splitting if necessary.
+ */
+export function splitTextBySize(text: string, maxChars = 4000): string[] {
+  if (!text) return [];
+  if (text.length <= maxChars) return [text.trim()];
+
+  const lines = text.split('\n');
+  const chunks: string[] = [];
+  let cur = '';
+
+  const pushCur = (force = false) => {
+    if (cur && (force || cur.length >= 1)) {
+      chunks.push(cur.trim());
+      cur = '';
+    }
+  };
+
+  for (const rawLine of lines) {
+    const line = rawLine;
+    if ((cur + '\n' + line).length > maxChars) {
+      // try to find a safe split point inside `cur`
+      const splitCandidates = ['\n\n', ';\n', '};\n', '\n//', '\n'];
+      let splitPos = -1;
+      for (const cand of splitCandidates) {
+        const idx = cur.lastIndexOf(cand);
+        if (idx > splitPos) splitPos = idx + (cand.startsWith('\n') ? 1 : 0);
+      }
+      if (splitPos > 10) {
+        const head = cur.slice(0, splitPos).trim();
+        const tail = cur.slice(splitPos).trim();
+        if (head) chunks.push(head);
+        cur = tail + '\n' + line;
+        if (cur.length > maxChars) {
+          // still too big -> brute force chop
+          while (cur.length > maxChars) {
+            chunks.push(cur.slice(0, maxChars).trim());
+            cur = cur.slice(maxChars);
+          }
+        }
+      } else {
+        // no good split candidate -> push current and start fresh
+        pushCur();
+        if (line.length > maxChars) {
+          // single line too long -> hard split
+          let start = 0;
+          while (start < line.length) {
+            chunks.push(line.slice(start, start + maxChars));
+            start += maxChars;
+          }
+        } else {
+          cur = line;
+        }
+      }
+    } else {
+      cur += (cur ? '\n' : '') + line;
+    }
+  }
+  pushCur(true);
+  return chunks.map(s => s.trim()).filter(Boolean);
+}
+
+// Per-line scan: 'head' starts a unit, 'attached' (comments, decorators) joins the next unit, 'body' continues the current one
+type LineKind = 'head' | 'attached' | 'body';
+
+function unitsFromLines(lines: string[], classify: (line: string, i: number) => LineKind): ChunkUnit[] {
+  const units: ChunkUnit[] = [];
+  let pending: number | undefined;
+  lines.forEach((line, i) => {
+    const kind = classify(line, i);
+    if (kind === 'attached') pending ??= i;
+    else if (kind === 'head') units.push({ start: pending ?? i, head: i });
+    if (kind !== 'attached') pending = undefined;
+  });
+  return units;
+}
+
+const isBlank = (line: string) => !line.trim();
+const isIndented = (line: string) => /^\s/.test(line);
+
+// Bracket depth at the start of each line, skipping strings and comments (C-style languages and JSON)
+function bracketDepths(content: string, { lineComments = true } = {}): number[] {
+  const depths = [0];
+  let depth = 0;
+  let state: 'code' | 'line' | 'block' | 'string' = 'code';
+  let quote = '';
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+    if (ch === '\n') {
+      if (state === 'line' || (state === 'string' && quote !== '`')) state = 'code';
+      depths.push(depth);
+      continue;
+    }
+    if (state === 'line') continue;
+    if (state === 'block') {
+      if (ch === '*' && content[i + 1] === '/') { state = 'code'; i++; }
+      continue;
+    }
+    if (state === 'string') {
+      if (ch === '\\') i++;
+      else if (ch === quote) state = 'code';
+      continue;
+    }
+    if (lineComments && ch === '/' && content[i + 1] === '/') state = 'line';
+    else if (lineComments && ch === '/' && content[i + 1] === '*') { state = 'block'; i++; }
+    else if (ch === '"' || ch === '`') { state = 'string'; quote = ch; }
+    else if (ch === "'") {
+      // Char literal only when it closes nearby on the same line (Rust lifetimes, apostrophes in Kotlin labels…)
+      const close = content.indexOf("'", i + 1);
+      if (close > i && close - i <= 12 && !content.slice(i + 1, close).includes('\n')) i = close;
+    }
+    else if ('{(['.includes(ch)) depth++;
+    else if ('})]'.includes(ch)) depth = Math.max(0, depth - 1);
+  }
+  return depths;
+}
+
+// TypeScript / JavaScript: top-level statements from the compiler AST (leading comments included)
+registerChunker({
+  name: 'typescript',
+  description: 'Top-level statements (TypeScript compiler AST)',
+  extensions: ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'],
+  units(content, fileName) {
+    const sourceFile = ts.createSourceFile(path.basename(fileName) || 'file.ts', content, ts.ScriptTarget.Latest, /*setParentNodes*/ true);
+    const lineOf = (pos: number) => sourceFile.getLineAndCharacterOfPosition(pos).line;
+    const units: ChunkUnit[] = [];
+    sourceFile.forEachChild(node => {
+      if (node.kind === ts.SyntaxKind.EndOfFileToken) return;
+      const fullStart = node.getFullStart();
+      const leading = content.slice(fullStart, node.getStart(sourceFile)).search(/\S/);
+      const unit = { start: lineOf(leading < 0 ? node.getStart(sourceFile) : fullStart + leading), head: lineOf(node.getStart(sourceFile)) };
+      // Several statements on one line belong to the first one
+      if (!units.length || unit.start > units[units.length - 1].head) units.push(unit);
+    });
+    return units;
+  },
+});
+
+// Python: top-level def/class (with their decorators) by indentation; other top-level statements in between
+registerChunker({
+  name: 'python',
+  description: 'Top-level def/class blocks (indentation)',
+  extensions: ['.py', '.pyi'],
+  units(content) {
+    let decorating = false;
+    return unitsFromLines(content.split('\n'), line => {
+      if (isBlank(line) || isIndented(line) || /^[)\]}]/.test(line)) return 'body';
+      if (line.startsWith('#')) return 'attached';
+      const decorator = line.startsWith('@');
+      const definition = /^(async\s+def|def|class)\b/.test(line);
+      const continues = decorating && (decorator || definition);
+      decorating = decorator;
+      return continues ? 'body' : 'head';
+    });
+  },
+});
+
+// JSON: members of the root object (or elements of the root array)
+registerChunker({
+  name: 'json',
+  description: 'Top-level keys / array elements',
+  extensions: ['.json', '.jsonc', '.json5'],
+  units(content) {
+    const depths = bracketDepths(content, { lineComments: false });
+    return unitsFromLines(content.split('\n'), (line, i) => {
+      if (depths[i] !== 1 || isBlank(line) || /^\s*[}\]]/.test(line)) return 'body';
+      return 'head';
+    });
+  },
+});
+
+// YAML: top-level keys, root sequence items and documents
+registerChunker({
+  name: 'yaml',
+  description: 'Top-level keys / documents',
+  extensions: ['.yaml', '.yml'],
+  units(content) {
+    return unitsFromLines(content.split('\n'), line => {
+      if (isBlank(line) || isIndented(line)) return 'body';
+      if (line.startsWith('#')) return 'attached';
+      return 'head';
+    });
+  },
+});
+
+// Markdown: one unit per ATX heading (# … ######), ignoring fenced code blocks
+registerChunker({
+  name: 'markdown',
+  description: 'Sections by heading',
+  extensions: ['.md', '.mdx', '.markdown'],
+  units(content) {
+    let fence: string | undefined;
+    return unitsFromLines(content.split('\n'), line => {
+      const marker = line.match(/^\s{0,3}(```|~~~)/)?.[1];
+      if (marker && (!fence || fence === marker)) fence = fence ? undefined : marker;
+      else if (!fence && /^\s{0,3}#{1,6}(\s|$)/.test(line)) return 'head';
+      return 'body';
+    });
+  },
+});
+
+// Go / Rust / Java / Kotlin / C-family: brace-balanced top-level declarations
+registerChunker({
+  name: 'brace',
+  description: 'Brace-balanced top-level declarations',
+  extensions: ['.go', '.rs', '.java', '.kt', '.kts', '.scala', '.swift', '.c', '.h', '.cc', '.cpp', '.hpp', '.cs', '.php'],
+  units(content) {
+    const depths = bracketDepths(content);
+    return unitsFromLines(content.split('\n'), (line, i) => {
+      if (depths[i] !== 0 || isBlank(line) || isIndented(line) || /^[)\]}]/.test(line)) return 'body';
+      if (/^(\/\/|\/\*|\*|@|#\[)/.test(line)) return 'attached';
+      return 'head';
+    });
+  },
+});
+
+// Anything else: the whole file, split by size
+registerChunker({
+  name: 'text',
+  description: 'Plain text, split by size',
+  extensions: ['.txt'],
+  units: () => [],
+});
+
+// Line-anchored chunks of a file, using the chunker registered for its extension
+export function splitFileIntoChunks(fileContent: string, filePath = 'file.ts', maxChunks = 10, maxChunkChars = 4000): Chunk[] {
+  if (!fileContent.trim()) return [];
+  const lines = fileContent.split('\n');
+  let units = getChunker(filePath).units(fileContent, filePath);
+  if (!units.length) units = [{ start: 0, head: 0 }];
+  units[0] = { ...units[0], start: 0 };  // preamble (license, shebang…) goes with the first unit
+
+  // Unit ranges; consecutive one-line units are merged
+  const ranges: Array<{ start: number; end: number; block: boolean }> = [];
+  units.forEach((unit, k) => {
+    const end = k + 1 < units.length ? units[k + 1].start - 1 : lines.length - 1;
+    const block = lines.slice(unit.head + 1, end + 1).some(line => line.trim());
+    const last = ranges[ranges.length - 1];
+    if (last && !last.block && !block) last.end = end;
+    else ranges.push({ start: unit.start, end, block });
+  });
+
+  const chunks: Chunk[] = [];
+  for (let { start, end } of ranges) {
+    while (start <= end && isBlank(lines[start])) start++;
+    while (end >= start && isBlank(lines[end])) end--;
+    if (start > end) continue;
+    const text = lines.slice(start, end + 1).join('\n').trimEnd();
+    if (text.length <= maxChunkChars) {
+      chunks.push({ text, startLine: start + 1, endLine: end + 1 });
+      continue;
+    }
+    // Oversized unit: size-based pieces, anchored where they appear in the unit
+    let offset = 0;
+    for (const piece of splitTextBySize(text, maxChunkChars)) {
+      const at = text.indexOf(piece, offset);
+      if (at >= 0) offset = at + piece.length;
+      const first = start + 1 + text.slice(0, Math.max(at, 0)).split('\n').length - 1;
+      chunks.push({ text: piece, startLine: first, endLine: first + piece.split('\n').length - 1 });
+    }
+  }
+
+  // If too many chunks, group contiguous chunks into buckets to respect maxChunks
+  if (chunks.length <= maxChunks) return chunks;
+  const perBucket = Math.ceil(chunks.length / maxChunks);
+  const grouped: Chunk[] = [];
+  for (let i = 0; i < chunks.length; i += perBucket) {
+    const bucket = chunks.slice(i, i + perBucket);
+    const startLine = bucket[0].startLine;
+    const endLine = bucket[bucket.length - 1].endLine;
+    grouped.push({ text: lines.slice(startLine - 1, endLine).join('\n').trimEnd(), startLine, endLine });
+  }
+  return grouped;
+}
@@ -0,0 +1,286 @@
+import path from 'path';
+import type { LanguageModelV2 } from '@openrouter/ai-sdk-provider';
+import { callLLM, type PRRSSummaries, type SummaryNode } from './prrs.js';
+import { tokenize } from './tokenize.js';
+import type { Finding } from './findings.js';
+import type { UsageTracker } from './usage.js';
+
+// prrs compare: drift between two results of the same repo (e.g. two releases kept in results/).
+// Nodes are aligned per lens by their path relative to the analyzed root, so runs made from
+// different checkouts or working directories still line up. Changed summaries get a local
+// sentence diff, or a model-written description of the shift (optional), plus the risk terms
+// that appear only in the new version.
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface NodeChange {
+  lens: string;
+  path: string;          // relative to the analyzed root ('.' = the root); symbols: <file>#<name>
+  kind: ChangeKind;
+  node: SummaryNode['type'];
+  similarity?: number;   // changed: word overlap of the two summaries (0-1)
+  status?: [string, string];   // changed: status before/after when it differs ('ok' when absent)
+  removedText?: string[];      // changed: sentences only in the old summary
+  addedText?: string[];        // changed: sentences only in the new summary
+  newRisks: string[];          // risk terms of the new summary that the old one did not use
+  findings?: { added: Finding[]; resolved: Finding[] };
+  metrics?: Record<string, [number | undefined, number | undefined]>;  // LOC / complexity before → after
+  description?: string;        // --llm: how the picture shifted, in the model's words
+}
+
+export interface LensComparison {
+  lens: string;
+  nodes: { before: number; after: number };
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  newRisks: string[];    // all nodes of the lens
+}
+
+export interface ComparisonReport {
+  lenses: LensComparison[];
+  changes: NodeChange[];   // per lens: removed, added, then changed (biggest shift first)
+  onlyBefore: string[];    // lenses missing from the new result
+  onlyAfter: string[];
+}
+
+export interface CompareOptions {
+  lenses?: string[];         // default: lenses present in both results
+  model?: LanguageModelV2;   // describe changed nodes with the model instead of the local diff only
+  maxDescribed?: number;     // model calls per lens, biggest shifts first (default 20)
+  tracker?: UsageTracker;
+  warn?: (message: string) => void;   // default console.warn
+}
+
+const DEFAULT_MAX_DESCRIBED = 20;
+
+// Wording that signals a risk in a summary. Lowercase, matched on word starts.
+export const RISK_TERMS = [
+  'vulnerab', 'injection', 'xss', 'csrf', 'ssrf', 'rce', 'dynamic code', 'unsafe', 'insecure', 'hard-coded', 'hardcoded',
+  'plaintext', 'secret', 'leak', 'exposed', 'exposure', 'bypass', 'unvalidated', 'unsanitized', 'no validation',
+  'privilege', 'deserializ', 'race condition', 'deadlock', 'memory leak', 'denial of service', 'dos ',
+  'deprecated', 'circular', 'tight coupling', 'tightly coupled', 'god object', 'critical', 'technical debt',
+];
+
+export function riskTerms(text: string): string[] {
+  const lower = ` ${text.toLowerCase().replace(/\s+/g, ' ')} `;
+  return RISK_TERMS.filter(term => new RegExp(`[^a-z]${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`).test(lower));
+}
+
+// Summaries are LLM markdown: one entry per sentence or bullet, without list/heading markup
+export function sentences(text: string): string[] {
+  return text
+    .split(/\n+|(?<=[.!?])\s+(?=[A-Z*`(])/)
+    .map(s => s.replace(/^\s*(#{1,6}\s+|[-*+]\s+|\d+[.)]\s+)/, '').replace(/\*\*/g, '').trim())
+    .filter(s => /[a-z0-9]/i.test(s));
+}
+
+const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Sentence-level diff (longest common subsequence on normalized sentences)
+export function textDiff(before: string, after: string): { removed: string[]; added: string[] } {
+  const a = sentences(before);
+  const b = sentences(after);
+  const na = a.map(normalize);
+  const nb = b.map(normalize);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = na[i] === nb[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const removed: string[] = [];
+  const added: string[] = [];
+  let [i, j] = [0, 0];
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && na[i] === nb[j]) [i, j] = [i + 1, j + 1];
+    else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) added.push(b[j++]);
+    else removed.push(a[i++]);
+  }
+  return { removed, added };
+}
+
+// Jaccard overlap of the word sets
+export function similarity(before: string, after: string): number {
+  const a = new Set(tokenize(before));
+  const b = new Set(tokenize(after));
+  if (!a.size && !b.size) return 1;
+  const shared = [...a].filter(word => b.has(word)).length;
+  return shared / (a.size + b.size - shared);
+}
+
+// Paths of one lens tree relative to its root (absolute or cwd-relative paths both work)
+type PathKey = (nodePath: string) => string;
+
+function pathKey(root: SummaryNode): PathKey {
+  const base = path.resolve(root.path ?? '.');
+  return nodePath => {
+    const [file, symbol] = nodePath.split('#');
+    const rel = path.relative(base, path.resolve(file)).split(path.sep).join('/') || '.';
+    return symbol !== undefined ? `${rel}#${symbol}` : rel;
+  };
+}
+
+// path → node of one lens tree, keyed by pathKey
+function indexByPath(root: SummaryNode, key: PathKey): Map<string, SummaryNode> {
+  const index = new Map<string, SummaryNode>();
+  const walk = (node: SummaryNode) => {
+    if (node.path) index.set(key(node.path), node);   // static placeholders have no path
+    node.children.forEach(walk);
+  };
+  walk(root);
+  return index;
+}
+
+const statusOf = (node: SummaryNode) => node.status ?? 'ok';
+
+// Findings match on rule id + file (relative to each result's root), not lines: an edit above a finding must not make it "new"
+function diffFindings(before: SummaryNode, after: SummaryNode, oldKey: PathKey, newKey: PathKey): NodeChange['findings'] {
+  const oldId = (f: Finding) => `${f.id}@${oldKey(f.file)}`;
+  const newId = (f: Finding) => `${f.id}@${newKey(f.file)}`;
+  const old = new Set((before.findings ?? []).map(oldId));
+  const current = new Set((after.findings ?? []).map(newId));
+  const added = (after.findings ?? []).filter(f => !old.has(newId(f)));
+  const resolved = (before.findings ?? []).filter(f => !current.has(oldId(f)));
+  return added.length || resolved.length ? { added, resolved } : undefined;
+}
+
+const METRICS = ['linesOfCode', 'complexity', 'fileCount', 'maxComplexity'] as const;
+
+function diffMetrics(before: SummaryNode, after: SummaryNode): NodeChange['metrics'] {
+  const metrics: NonNullable<NodeChange['metrics']> = {};
+  for (const name of METRICS) {
+    const [a, b] = [before.metadata?.[name], after.metadata?.[name]];
+    if (a !== b && (a !== undefined || b !== undefined)) metrics[name] = [a, b];
+  }
+  return Object.keys(metrics).length ? metrics : undefined;
+}
+
+export function shiftPrompt(change: NodeChange, before: string, after: string): string {
+  return `Describe how the "${change.lens}" picture of ${change.path} (${change.node ?? 'node'}) shifted between two analyses of the same codebase, from "${change.lens}" perspective: what was introduced, what went away, and whether the risk got better or worse. Ignore differences of wording only. 2-4 sentences, no headings.
+
+Before:
+${before}
+
+After:
+${after}`;
+}
+
+export async function compareSummaries(before: PRRSSummaries, after: PRRSSummaries, options: CompareOptions = {}): Promise<ComparisonReport> {
+  const shared = Object.keys(after).filter(lens => before[lens]);
+  const lenses = options.lenses?.length ? options.lenses : shared;
+  for (const lens of lenses) {
+    if (!before[lens] || !after[lens]) throw new Error(`Lens "${lens}" is not in both results (common lenses: ${shared.join(', ') || 'none'})`);
+  }
+
+  const report: ComparisonReport = {
+    lenses: [],
+    changes: [],
+    onlyBefore: Object.keys(before).filter(lens => !after[lens]),
+    onlyAfter: Object.keys(after).filter(lens => !before[lens]),
+  };
+  for (const lens of lenses) {
+    const [oldKey, newKey] = [pathKey(before[lens]), pathKey(after[lens])];
+    const old = indexByPath(before[lens], oldKey);
+    const current = indexByPath(after[lens], newKey);
+    const removed: NodeChange[] = [...old].filter(([key]) => !current.has(key))
+      .map(([key, node]) => ({ lens, path: key, kind: 'removed', node: node.type, newRisks: [] }));
+    const added: NodeChange[] = [...current].filter(([key]) => !old.has(key))
+      .map(([key, node]) => ({
+        lens, path: key, kind: 'added', node: node.type, newRisks: riskTerms(node.summary),
+        ...(node.findings?.length ? { findings: { added: node.findings, resolved: [] } } : {}),
+      }));
+
+    const changed: NodeChange[] = [];
+    const texts = new Map<NodeChange, [string, string]>();
+    for (const [key, node] of current) {
+      const previous = old.get(key);
+      if (!previous) continue;
+      const sameText = normalize(previous.summary) === normalize(node.summary);
+      const status: [string, string] = [statusOf(previous), statusOf(node)];
+      const findings = diffFindings(previous, node, oldKey, newKey);
+      if (sameText && status[0] === status[1] && !findings) continue;
+      const diff = textDiff(previous.summary, node.summary);
+      const oldRisks = new Set(riskTerms(previous.summary));
+      const change: NodeChange = {
+        lens, path: key, kind: 'changed', node: node.type,
+        similarity: Math.round(similarity(previous.summary, node.summary) * 100) / 100,
+        ...(status[0] !== status[1] ? { status } : {}),
+        removedText: diff.removed,
+        addedText: diff.added,
+        newRisks: riskTerms(node.summary).filter(term => !oldRisks.has(term)),
+        ...(findings ? { findings } : {}),
+      };
+      const metrics = diffMetrics(previous, node);
+      if (metrics) change.metrics = metrics;
+      changed.push(change);
+      texts.set(change, [previous.summary, node.summary]);
+    }
+    changed.sort((a, b) => a.similarity! - b.similarity! || a.path.localeCompare(b.path));
+
+    // Optional: the model describes the biggest shifts (both summaries must be usable)
+    if (options.model) {
+      const describable = changed.filter(c => !c.status && texts.get(c)!.every(text => text.trim()));
+      for (const change of describable.slice(0, options.maxDescribed ?? DEFAULT_MAX_DESCRIBED)) {
+        const [oldText, newText] = texts.get(change)!;
+        try {
+          change.description = await callLLM(shiftPrompt(change, oldText, newText), options.model, options.tracker?.meter(lens));
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          (options.warn ?? console.warn)(`compare: describing ${change.path} (${lens}) failed (${message}), keeping the text diff`);
+        }
+      }
+    }
+
+    const changes = [...removed, ...added, ...changed];
+    report.changes.push(...changes);
+    report.lenses.push({
+      lens,
+      nodes: { before: old.size, after: current.size },
+      added: added.length,
+      removed: removed.length,
+      changed: changed.length,
+      unchanged: current.size - added.length - changed.length,
+      newRisks: [...new Set(changes.flatMap(c => c.newRisks))],
+    });
+  }
+  return report;
+}
+
+const MARKS: Record<ChangeKind, string> = { added: '+', removed: '-', changed: '~' };
+
+const fmtMetric = (value: number | undefined) => (value === undefined ? '?' : String(Math.round(value * 10) / 10));
+
+export function formatComparison(report: ComparisonReport, options: { maxLines?: number } = {}): string {
+  const maxLines = options.maxLines ?? 4;
+  const lines: string[] = [];
+  if (report.onlyBefore.length) lines.push(`Lenses only in the old result: ${report.onlyBefore.join(', ')}`);
+  if (report.onlyAfter.length) lines.push(`Lenses only in the new result: ${report.onlyAfter.join(', ')}`);
+  for (const lens of report.lenses) {
+    lines.push('', `=== ${lens.lens.toUpperCase()}: ${lens.added} added, ${lens.removed} removed, ${lens.changed} changed, ${lens.unchanged} unchanged (${lens.nodes.before} → ${lens.nodes.after} nodes) ===`);
+    if (lens.newRisks.length) lines.push(`New risk language: ${lens.newRisks.join(', ')}`);
+    for (const change of report.changes.filter(c => c.lens === lens.lens)) {
+      const extra = [
+        change.similarity !== undefined ? `similarity ${change.similarity.toFixed(2)}` : '',
+        change.status ? `status ${change.status[0]} → ${change.status[1]}` : '',
+        change.newRisks.length ? `new risk: ${change.newRisks.join(', ')}` : '',
+      ].filter(Boolean);
+      lines.push(`${MARKS[change.kind]} ${change.path} (${change.node ?? 'node'})${extra.length ? ` [${extra.join('; ')}]` : ''}`);
+      change.findings?.added.forEach(f => lines.push(`    new finding [${f.severity}] ${f.title} (L${f.startLine})`));
+      change.findings?.resolved.forEach(f => lines.push(`    resolved [${f.severity}] ${f.title}`));
+      if (change.kind !== 'changed') continue;
+      if (change.metrics) {
+        lines.push(`    ${Object.entries(change.metrics).map(([name, [a, b]]) => `${name} ${fmtMetric(a)} → ${fmtMetric(b)}`).join(', ')}`);
+      }
+      if (change.description) {
+        lines.push(...change.description.split('\n').map(l => `    ${l}`));
+        continue;
+      }
+      const diff = [...(change.removedText ?? []).map(s => `    - ${s}`), ...(change.addedText ?? []).map(s => `    + ${s}`)];
+      lines.push(...diff.slice(0, maxLines));
+      if (diff.length > maxLines) lines.push(`    … ${diff.length - maxLines} more sentence(s)`);
+    }
+  }
+  return `${lines.join('\n').trim()}\n`;
+}
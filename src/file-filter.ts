@@ -0,0 +1,132 @@
+import fs from 'fs-extra';
+import path from 'path';
+import ignore, { type Ignore } from 'ignore';
+
+// Which files a run sends to the model. Layers, lowest precedence first:
+// built-in excludes, then .gitignore / .prrsignore of every directory from the repo root down,
+// then --exclude. A later layer can re-include with "!pattern". --include (when given) restricts
+// files to the matching ones, and replaces the source-extension check for them.
+
+export const IGNORE_FILE = '.prrsignore';
+
+export const DEFAULT_EXCLUDES = ['.git/', 'node_modules/', 'dist/', 'coverage/', '.next/', '.prrs-cache/'];
+
+export const SOURCE_EXTENSIONS = [
+  '.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs',
+  '.py', '.json', '.go', '.rs', '.java', '.kt',
+];
+
+export interface FileFilterOptions {
+  include?: string[];     // gitignore-style globs, relative to the analyzed folder
+  exclude?: string[];
+  gitignore?: boolean;    // honor .gitignore files (default true); .prrsignore is always read
+}
+
+export interface FileFilter {
+  root: string;
+  accepts(absPath: string, isDirectory: boolean): boolean;
+}
+
+const toPosix = (p: string) => p.split(path.sep).join('/');
+
+// Repository root (the closest ancestor with a .git entry), or the folder itself
+function findRepoRoot(start: string): string {
+  for (let dir = start; ; dir = path.dirname(dir)) {
+    if (fs.existsSync(path.join(dir, '.git'))) return dir;
+    if (path.dirname(dir) === dir) return start;
+  }
+}
+
+function readRules(dir: string, files: string[]): string[] {
+  return files.flatMap(file => {
+    const filePath = path.join(dir, file);
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8').split(/\r?\n/) : [];
+  });
+}
+
+export function createFileFilter(folderPath: string, options: FileFilterOptions = {}): FileFilter {
+  const root = path.resolve(fs.statSync(folderPath).isDirectory() ? folderPath : path.dirname(folderPath));
+  let repoRoot = findRepoRoot(root);
+  const ruleFiles = options.gitignore === false ? [IGNORE_FILE] : ['.gitignore', IGNORE_FILE];
+  const defaults = ignore().add(DEFAULT_EXCLUDES);
+  const excludes = ignore().add(options.exclude ?? []);
+  const includes = options.include?.length ? ignore().add(options.include) : undefined;
+
+  // Per-directory rules, read once
+  const levels = new Map<string, Ignore | undefined>();
+  const levelFor = (dir: string) => {
+    if (!levels.has(dir)) {
+      const rules = readRules(dir, ruleFiles).filter(line => line.trim() && !line.startsWith('#'));
+      levels.set(dir, rules.length ? ignore().add(rules) : undefined);
+    }
+    return levels.get(dir);
+  };
+
+  // Directories whose rules apply to absPath: repo root ... parent of absPath
+  const ancestors = (absPath: string) => {
+    const dirs: string[] = [];
+    for (let dir = path.dirname(absPath); ; dir = path.dirname(dir)) {
+      if (path.relative(repoRoot, dir).startsWith('..')) break;
+      dirs.unshift(dir);
+      if (dir === repoRoot || path.dirname(dir) === dir) break;
+    }
+    return dirs;
+  };
+
+  const isIgnored = (absPath: string, isDirectory: boolean) => {
+    const suffix = isDirectory ? '/' : '';
+    const fromRoot = toPosix(path.relative(root, absPath)) + suffix;
+    let ignored = defaults.ignores(toPosix(path.relative(repoRoot, absPath)) + suffix);
+    for (const dir of ancestors(absPath)) {
+      const result = levelFor(dir)?.test(toPosix(path.relative(dir, absPath)) + suffix);
+      if (result?.ignored) ignored = true;
+      else if (result?.unignored) ignored = false;
+    }
+    if (absPath !== root && !fromRoot.startsWith('..')) {
+      const result = excludes.test(fromRoot);
+      if (result.ignored) ignored = true;
+      else if (result.unignored) ignored = false;
+    }
+    return ignored;
+  };
+
+  // An explicitly targeted folder that the repo ignores (e.g. --path dist) is analyzed on its own rules
+  if (repoRoot !== root && isIgnored(root, true)) {
+    repoRoot = root;
+    levels.clear();
+  }
+
+  return {
+    root,
+    accepts(absPath, isDirectory) {
+      const abs = path.resolve(absPath);
+      if (abs === root) return true;
+      if (isIgnored(abs, isDirectory)) return false;
+      if (isDirectory) return true;
+      const rel = toPosix(path.relative(root, abs));
+      if (includes && !rel.startsWith('..')) return includes.ignores(rel);
+      return SOURCE_EXTENSIONS.includes(path.extname(abs).toLowerCase());
+    },
+  };
+}
+
+// Files a run would read, in traversal order (same depth rule as rrs: the root is depth 0)
+export async function listFiles(folderPath: string, filter: FileFilter, maxDepth = Infinity): Promise<string[]> {
+  const files: string[] = [];
+  const walk = async (nodePath: string, depth: number) => {
+    if (depth > maxDepth) return;
+    const stats = await fs.stat(nodePath);
+    if (!stats.isDirectory()) {
+      if (filter.accepts(nodePath, false)) files.push(nodePath);
+      return;
+    }
+    for (const item of (await fs.readdir(nodePath)).sort()) {
+      const itemPath = path.join(nodePath, item);
+      const isDirectory = (await fs.stat(itemPath)).isDirectory();
+      if (!filter.accepts(itemPath, isDirectory)) continue;
+      await walk(itemPath, depth + 1);
+    }
+  };
+  await walk(folderPath, 0);
+  return files;
+}
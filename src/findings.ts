@@ -0,0 +1,100 @@
+import type { PRRSSummaries, SummaryNode } from './prrs.js';
+import type { Chunk } from './chunkers.js';
+
+export type Severity = 'critical' | 'high' | 'medium' | 'low' | 'info';
+
+// Most severe first: index = rank
+export const SEVERITIES: Severity[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+// A line-anchored issue reported by a findings-enabled lens (e.g. security)
+export interface Finding {
+  id: string;          // short rule id, e.g. "hardcoded-secret"
+  severity: Severity;
+  title: string;
+  file: string;        // same path as the file node
+  startLine: number;   // 1-based, in the file (mapped back from the chunk)
+  endLine: number;
+  rationale: string;
+  fix?: string;
+  lens?: string;
+}
+
+// Appended to the file prompt of lenses with `findings: true`; chunks are numbered "Chunk <n>"
+export const FINDINGS_INSTRUCTIONS = `
+
+After the summary, add a line "FINDINGS:" followed by ONLY a JSON array (empty if nothing relevant):
+[{"id": "kebab-case-rule-id", "severity": "critical|high|medium|low|info", "title": "short title", "chunk": <chunk number>, "startLine": <1-based line inside that chunk>, "endLine": <line inside that chunk>, "rationale": "why it matters", "fix": "suggested fix"}]`;
+
+export function isSeverity(value: unknown): value is Severity {
+  return typeof value === 'string' && (SEVERITIES as string[]).includes(value);
+}
+
+export function parseSeverity(value: string): Severity {
+  const severity = value.toLowerCase();
+  if (!isSeverity(severity)) throw new Error(`Unknown severity "${value}" (expected ${SEVERITIES.join(', ')})`);
+  return severity;
+}
+
+// True when `severity` is at least as severe as `threshold`
+export function meetsSeverity(severity: Severity, threshold: Severity): boolean {
+  return SEVERITIES.indexOf(severity) <= SEVERITIES.indexOf(threshold);
+}
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'finding';
+
+// Split an LLM answer into the prose summary and its findings. A missing or malformed
+// FINDINGS block is not an error: the summary is kept and findings come back empty (with a warning).
+export function parseFindings(response: string, chunks: Chunk[], file: string, warn: (message: string) => void = console.warn): { summary: string; findings: Finding[] } {
+  const marker = response.lastIndexOf('FINDINGS:');
+  if (marker < 0) return { summary: response.trim(), findings: [] };
+  const summary = response.slice(0, marker).trim();
+  const tail = response.slice(marker + 'FINDINGS:'.length);
+  const start = tail.indexOf('[');
+  const end = tail.lastIndexOf(']');
+
+  let raw: unknown;
+  try {
+    raw = start >= 0 && end > start ? JSON.parse(tail.slice(start, end + 1)) : [];
+  } catch {
+    warn(`Unparseable FINDINGS block for ${file}, keeping the summary only`);
+    return { summary, findings: [] };
+  }
+  if (!Array.isArray(raw)) return { summary, findings: [] };
+
+  const findings: Finding[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object' || typeof item.title !== 'string' || !item.title.trim()) continue;
+    const chunkIndex = Number.isInteger(item.chunk) && item.chunk >= 0 && item.chunk < chunks.length ? item.chunk : 0;
+    const chunk = chunks[chunkIndex];
+    const chunkLines = chunk ? chunk.endLine - chunk.startLine + 1 : 1;
+    const base = chunk?.startLine ?? 1;
+    const clamp = (n: unknown, fallback: number) => Math.min(chunkLines, Math.max(1, Number.isFinite(Number(n)) ? Math.floor(Number(n)) : fallback));
+    const relStart = clamp(item.startLine, 1);
+    const relEnd = Math.max(relStart, clamp(item.endLine, relStart));
+    const severity = String(item.severity ?? '').toLowerCase();
+    findings.push({
+      id: typeof item.id === 'string' && item.id.trim() ? slug(item.id) : slug(item.title),
+      severity: isSeverity(severity) ? severity : 'medium',
+      title: item.title.trim(),
+      file,
+      startLine: base + relStart - 1,
+      endLine: base + relEnd - 1,
+      rationale: typeof item.rationale === 'string' ? item.rationale.trim() : '',
+      ...(typeof item.fix === 'string' && item.fix.trim() ? { fix: item.fix.trim() } : {}),
+    });
+  }
+  return { summary, findings };
+}
+
+// Every finding of a result, tagged with its lens
+export function collectFindings(summaries: PRRSSummaries): Finding[] {
+  const findings: Finding[] = [];
+  const walk = (node: SummaryNode, lens: string) => {
+    node.findings?.forEach(f => findings.push({ ...f, lens }));
+    node.children.forEach(child => walk(child, lens));
+  };
+  Object.entries(summaries).forEach(([lens, root]) => {
+    if (root && Array.isArray(root.children)) walk(root, lens);
+  });
+  return findings;
+}
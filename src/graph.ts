@@ -0,0 +1,231 @@
+import path from 'path';
+import { extractMetadata } from './metadata.js';
+import { createFileFilter, listFiles, type FileFilterOptions } from './file-filter.js';
+import type { PRRSSummaries, SummaryNode } from './prrs.js';
+
+export interface GraphNode {
+  id: string;          // path relative to the graph root ('.' for the root folder)
+  kind: 'file' | 'folder';
+  summary?: string;    // lens summary from a previous run, when annotated
+  inCycle?: boolean;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  weight: number;      // number of import statements collapsed into this edge
+}
+
+export interface DependencyGraph {
+  root: string;
+  level: 'file' | 'folder';
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  cycles: string[][];
+  unresolved: Array<{ from: string; specifier: string }>;
+}
+
+export type GraphFormat = 'dot' | 'mermaid' | 'json';
+
+// Modules whose imports the graph resolves (other source files of the walk are left out)
+const MODULE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// ESM projects import compiled names ('./x.js') that live in sources as './x.ts'
+const ESM_REMAP: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+// The files an analysis of root would read (.gitignore, .prrsignore, --include/--exclude), JS/TS modules only
+async function collectSourceFiles(root: string, options: FileFilterOptions): Promise<string[]> {
+  const files = await listFiles(root, createFileFilter(root, options));
+  return files
+    .filter(file => MODULE_EXTENSIONS.includes(path.extname(file).toLowerCase()) && !file.endsWith('.d.ts'))
+    .map(file => path.resolve(file));
+}
+
+// Resolve a relative specifier to a repo file: exact, .js→.ts remap, extension probing, index files
+export function resolveImport(fromFile: string, specifier: string, files: Set<string>): string | undefined {
+  if (!specifier.startsWith('.')) return undefined;
+  const base = path.resolve(path.dirname(fromFile), specifier);
+  const ext = path.extname(base);
+  const stem = base.slice(0, base.length - ext.length);
+
+  const candidates = [
+    base,
+    ...(ESM_REMAP[ext] ?? []).map(e => stem + e),
+    ...MODULE_EXTENSIONS.map(e => base + e),
+    ...MODULE_EXTENSIONS.map(e => path.join(base, `index${e}`)),
+  ];
+  return candidates.find(c => files.has(c));
+}
+
+// Tarjan's strongly connected components: every component with >1 node (or a self-import) is a cycle
+export function findCycles(nodes: string[], edges: GraphEdge[]): string[][] {
+  const adjacency = new Map<string, string[]>(nodes.map(n => [n, []]));
+  edges.forEach(e => adjacency.get(e.from)?.push(e.to));
+
+  let counter = 0;
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (v: string) => {
+    index.set(v, counter);
+    low.set(v, counter);
+    counter++;
+    stack.push(v);
+    onStack.add(v);
+    for (const w of adjacency.get(v) ?? []) {
+      if (!index.has(w)) {
+        visit(w);
+        low.set(v, Math.min(low.get(v)!, low.get(w)!));
+      } else if (onStack.has(w)) {
+        low.set(v, Math.min(low.get(v)!, index.get(w)!));
+      }
+    }
+    if (low.get(v) === index.get(v)) {
+      const component: string[] = [];
+      let w: string;
+      do {
+        w = stack.pop()!;
+        onStack.delete(w);
+        component.push(w);
+      } while (w !== v);
+      const selfLoop = component.length === 1 && (adjacency.get(v) ?? []).includes(v);
+      if (component.length > 1 || selfLoop) cycles.push(component.reverse());
+    }
+  };
+
+  nodes.forEach(n => { if (!index.has(n)) visit(n); });
+  return cycles;
+}
+
+function addEdge(edges: Map<string, GraphEdge>, from: string, to: string) {
+  const key = `${from}\u0000${to}`;
+  const edge = edges.get(key);
+  if (edge) edge.weight++;
+  else edges.set(key, { from, to, weight: 1 });
+}
+
+// Type-only imports are erased at compile time, so they are left out unless includeTypeImports is set
+export async function buildDependencyGraph(rootPath: string, level: 'file' | 'folder' = 'file', includeTypeImports = false, filterOptions: FileFilterOptions = {}): Promise<DependencyGraph> {
+  const root = path.resolve(rootPath);
+  const files = await collectSourceFiles(root, filterOptions);
+  const fileSet = new Set(files);
+  const rel = (abs: string) => path.relative(root, abs) || '.';
+  const nodeId = (abs: string) => (level === 'file' ? rel(abs) : rel(path.dirname(abs)));
+
+  const edges = new Map<string, GraphEdge>();
+  const nodeIds = new Set<string>();
+  const unresolved: DependencyGraph['unresolved'] = [];
+
+  for (const file of files) {
+    nodeIds.add(nodeId(file));
+    const { imports = [] } = await extractMetadata(file);
+    for (const imp of imports) {
+      if (!imp.from.startsWith('.')) continue;  // packages are in metadata.dependencies
+      if (imp.typeOnly && !includeTypeImports) continue;
+      const target = resolveImport(file, imp.from, fileSet);
+      if (!target) {
+        unresolved.push({ from: rel(file), specifier: imp.from });
+        continue;
+      }
+      const from = nodeId(file);
+      const to = nodeId(target);
+      // Imports inside one folder are not folder-level dependencies
+      if (level === 'folder' && from === to) continue;
+      addEdge(edges, from, to);
+    }
+  }
+
+  const edgeList = [...edges.values()];
+  const cycles = findCycles([...nodeIds], edgeList);
+  const cyclic = new Set(cycles.flat());
+  return {
+    root,
+    level,
+    nodes: [...nodeIds].sort().map(id => ({ id, kind: level, ...(cyclic.has(id) ? { inCycle: true } : {}) })),
+    edges: edgeList,
+    cycles,
+    unresolved,
+  };
+}
+
+// Attach each node's summary from a previous --output json result (matched by resolved path)
+export function annotateGraph(graph: DependencyGraph, summaries: PRRSSummaries, lens: string): DependencyGraph {
+  const root = summaries[lens];
+  if (!root) throw new Error(`Lens "${lens}" not found in previous result (available: ${Object.keys(summaries).join(', ')})`);
+
+  const byPath = new Map<string, string>();
+  const walk = (node: SummaryNode) => {
+    if (node.path && node.summary) byPath.set(path.resolve(node.path), node.summary);
+    node.children.forEach(walk);
+  };
+  walk(root);
+
+  graph.nodes.forEach(node => {
+    const summary = byPath.get(path.resolve(graph.root, node.id));
+    if (summary) node.summary = summary;
+  });
+  return graph;
+}
+
+const oneLine = (text: string, max = 80) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > max ? `${flat.slice(0, max)}…` : flat;
+};
+
+export function toDot(graph: DependencyGraph): string {
+  const cyclicEdges = new Set(graph.cycles.flatMap(c => c.flatMap(a => c.map(b => `${a}\u0000${b}`))));
+  const q = (s: string) => JSON.stringify(s);
+  const lines = [`digraph dependencies {`, `  rankdir=LR;`, `  node [shape=box, fontname="Helvetica"];`];
+  graph.nodes.forEach(node => {
+    const attrs = [`label=${q(node.summary ? `${node.id}\n${oneLine(node.summary, 60)}` : node.id)}`];
+    if (node.summary) attrs.push(`tooltip=${q(oneLine(node.summary, 500))}`);
+    if (node.inCycle) attrs.push('color=red');
+    lines.push(`  ${q(node.id)} [${attrs.join(', ')}];`);
+  });
+  graph.edges.forEach(edge => {
+    const attrs = edge.weight > 1 ? [`label="${edge.weight}"`] : [];
+    if (cyclicEdges.has(`${edge.from}\u0000${edge.to}`)) attrs.push('color=red');
+    lines.push(`  ${q(edge.from)} -> ${q(edge.to)}${attrs.length ? ` [${attrs.join(', ')}]` : ''};`);
+  });
+  lines.push('}');
+  return lines.join('\n');
+}
+
+export function toMermaid(graph: DependencyGraph): string {
+  // Mermaid ids must be plain identifiers: map paths to n0, n1, …
+  const ids = new Map(graph.nodes.map((node, i) => [node.id, `n${i}`]));
+  const label = (text: string) => text.replace(/"/g, '#quot;');
+  const lines = ['graph LR'];
+  graph.nodes.forEach(node => {
+    const text = node.summary ? `${node.id}<br/>${oneLine(node.summary, 60)}` : node.id;
+    lines.push(`  ${ids.get(node.id)}["${label(text)}"]`);
+  });
+  graph.edges.forEach(edge => {
+    lines.push(`  ${ids.get(edge.from)} -->${edge.weight > 1 ? `|${edge.weight}|` : ''} ${ids.get(edge.to)}`);
+  });
+  const cyclic = graph.nodes.filter(n => n.inCycle).map(n => ids.get(n.id));
+  if (cyclic.length) {
+    lines.push('  classDef cycle stroke:#d00,stroke-width:2px');
+    lines.push(`  class ${cyclic.join(',')} cycle`);
+  }
+  return lines.join('\n');
+}
+
+export function renderGraph(graph: DependencyGraph, format: GraphFormat): string {
+  switch (format) {
+    case 'dot':
+      return toDot(graph);
+    case 'mermaid':
+      return toMermaid(graph);
+    case 'json':
+      return JSON.stringify(graph, null, 2);
+  }
+}
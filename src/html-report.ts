@@ -0,0 +1,243 @@
+import path from 'path';
+import { formatMetadataBadges } from './metadata.js';
+import type { PRRSSummaries, SummaryNode } from './prrs.js';
+import type { Finding } from './findings.js';
+
+export interface HtmlReportOptions {
+  title?: string;
+  root?: string;        // paths are shown relative to it (default: cwd)
+}
+
+interface LensView {
+  summary: string;
+  status?: SummaryNode['status'];
+  error?: string;
+  findings?: Finding[];
+}
+
+// One node per path, merged across lenses: the page shows every lens of a node side by side
+interface ReportNode {
+  name: string;
+  path: string;
+  type: string;
+  badges: string[];
+  exports: string[];
+  views: Record<string, LensView>;
+  children: ReportNode[];
+}
+
+const isSkipped = (node: SummaryNode) => node.summary.startsWith('Skipped (non-source file)');
+
+function mergeLenses(summaries: PRRSSummaries, root: string): ReportNode | undefined {
+  const byKey = new Map<string, ReportNode>();
+  let top: ReportNode | undefined;
+
+  const rel = (p: string) => {
+    const r = path.relative(root, path.resolve(p));
+    return r && !r.startsWith('..') ? r : path.basename(p) || p;
+  };
+
+  // Nodes without a path (empty file, depth limit...) are keyed under their parent
+  const visit = (lens: string, node: SummaryNode, parentKey: string, index: number): ReportNode => {
+    const key = node.path ? path.resolve(node.path) : `${parentKey}#${index}`;
+    let merged = byKey.get(key);
+    if (!merged) {
+      merged = {
+        name: node.path ? rel(node.path) : node.summary,
+        path: node.path ?? '',
+        type: node.type ?? 'unknown',
+        badges: [],
+        exports: [],
+        views: {},
+        children: [],
+      };
+      byKey.set(key, merged);
+    }
+    if (!merged.badges.length && node.metadata) {
+      merged.badges = formatMetadataBadges(node.metadata);
+      merged.exports = (node.metadata.exports ?? []).map(e => e.name);
+    }
+    merged.views[lens] = { summary: node.summary, status: node.status, error: node.error, findings: node.findings };
+    node.children.forEach((child, i) => {
+      if (!child || isSkipped(child)) return;
+      const mergedChild = visit(lens, child, key, i);
+      if (!merged!.children.includes(mergedChild)) merged!.children.push(mergedChild);
+    });
+    return merged;
+  };
+
+  for (const [lens, node] of Object.entries(summaries)) {
+    if (!node || typeof node.summary !== 'string') continue;
+    const merged = visit(lens, node, '', 0);
+    top ??= merged;
+  }
+  return top;
+}
+
+// JSON inside <script>: "</script" and U+2028/2029 must not leak out of the data block
+function embedJson(value: unknown): string {
+  return JSON.stringify(value)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+
+const STYLE = `
+body { font: 14px/1.5 system-ui, sans-serif; margin: 0; color: #1f2328; background: #fff; }
+header { position: sticky; top: 0; background: #f6f8fa; border-bottom: 1px solid #d0d7de; padding: 10px 16px; z-index: 1; }
+header h1 { font-size: 18px; margin: 0 0 6px; }
+header .meta { color: #59636e; font-size: 12px; }
+.controls { display: flex; flex-wrap: wrap; gap: 12px; align-items: center; margin-top: 6px; }
+.controls input[type=search] { width: 280px; padding: 4px 8px; }
+.controls label { user-select: none; }
+main { padding: 12px 16px; }
+details { margin-left: 18px; border-left: 1px solid #eaeef2; padding-left: 8px; }
+main > details { margin-left: 0; border-left: none; }
+summary { cursor: pointer; padding: 2px 0; }
+summary .name { font-family: ui-monospace, monospace; font-weight: 600; }
+summary .type { color: #59636e; font-size: 12px; margin-left: 6px; }
+.badge { display: inline-block; font-size: 11px; background: #ddf4ff; color: #0550ae; border-radius: 10px; padding: 0 7px; margin-left: 4px; }
+.badge.error { background: #ffebe9; color: #cf222e; }
+.views { display: grid; grid-template-columns: repeat(var(--cols, 1), minmax(0, 1fr)); gap: 8px; margin: 4px 0 8px; }
+.view { border: 1px solid #d0d7de; border-radius: 6px; padding: 6px 10px; background: #fff; }
+.view h4 { margin: 0 0 4px; font-size: 12px; text-transform: uppercase; color: #59636e; }
+.view .text { white-space: pre-wrap; }
+.view.error { border-color: #ff8182; background: #fff8f8; }
+.findings { margin: 6px 0 0; padding-left: 18px; }
+.sev { font-size: 11px; font-weight: 600; text-transform: uppercase; margin-right: 4px; }
+.sev.critical, .sev.high { color: #cf222e; } .sev.medium { color: #9a6700; } .sev.low, .sev.info { color: #59636e; }
+.exports { font-size: 12px; color: #59636e; font-family: ui-monospace, monospace; }
+.hidden { display: none; }
+`;
+
+// Rendered client side from the embedded data: no network, no dependency
+const SCRIPT = `
+const data = JSON.parse(document.getElementById('prrs-data').textContent);
+const main = document.querySelector('main');
+const filter = document.getElementById('filter');
+const lensBoxes = [...document.querySelectorAll('input[name=lens]')];
+const entries = [];
+
+function el(tag, cls, text) {
+  const e = document.createElement(tag);
+  if (cls) e.className = cls;
+  if (text !== undefined) e.textContent = text;
+  return e;
+}
+
+function render(node, parent) {
+  const details = el('details');
+  const head = el('summary');
+  head.append(el('span', 'name', node.type === 'folder' ? node.name + '/' : node.name), el('span', 'type', node.type));
+  node.badges.forEach(b => head.append(el('span', 'badge', b)));
+  if (Object.values(node.views).some(v => v.status === 'error')) head.append(el('span', 'badge error', 'error'));
+  const findingCount = Object.values(node.views).reduce((n, v) => n + (v.findings ? v.findings.length : 0), 0);
+  if (findingCount) head.append(el('span', 'badge error', findingCount + ' finding(s)'));
+  details.append(head);
+  if (node.exports.length) details.append(el('div', 'exports', 'exports: ' + node.exports.join(', ')));
+  const views = el('div', 'views');
+  const cards = {};
+  data.lenses.forEach(lens => {
+    const view = node.views[lens];
+    if (!view) return;
+    const card = el('div', view.status === 'error' ? 'view error' : 'view');
+    const text = view.status === 'error' ? 'Error: ' + (view.error || 'unknown')
+      : view.status === 'skipped' ? 'Not processed: ' + (view.error || 'skipped') : view.summary;
+    card.append(el('h4', '', lens), el('div', 'text', text));
+    if (view.findings && view.findings.length) {
+      const list = el('ul', 'findings');
+      view.findings.forEach(f => {
+        const item = el('li');
+        item.append(el('span', 'sev ' + f.severity, f.severity), document.createTextNode('L' + f.startLine + '-' + f.endLine + ' ' + f.title + (f.rationale ? ': ' + f.rationale : '') + (f.fix ? ' Fix: ' + f.fix : '')));
+        list.append(item);
+      });
+      card.append(list);
+    }
+    cards[lens] = card;
+    views.append(card);
+  });
+  details.append(views);
+  const text = (node.name + ' ' + node.exports.join(' ') + ' ' + Object.values(node.views).map(v => v.summary + ' ' + (v.error || '') + ' ' + (v.findings || []).map(f => f.severity + ' ' + f.title).join(' ')).join(' ')).toLowerCase();
+  const entry = { node, details, views, cards, text, children: [] };
+  entries.push(entry);
+  node.children.forEach(child => entry.children.push(render(child, details)));
+  parent.append(details);
+  return entry;
+}
+
+function applyLenses() {
+  const active = lensBoxes.filter(b => b.checked).map(b => b.value);
+  entries.forEach(entry => {
+    let shown = 0;
+    Object.entries(entry.cards).forEach(([lens, card]) => {
+      const on = active.includes(lens);
+      card.classList.toggle('hidden', !on);
+      if (on) shown++;
+    });
+    entry.views.style.setProperty('--cols', Math.max(shown, 1));
+  });
+}
+
+// A node stays visible when it or one of its descendants matches; matches open their ancestors
+function applyFilter() {
+  const q = filter.value.trim().toLowerCase();
+  const walk = entry => {
+    const childMatch = entry.children.map(walk).some(Boolean);
+    const match = !q || entry.text.includes(q);
+    entry.details.classList.toggle('hidden', !(match || childMatch));
+    if (q) entry.details.open = childMatch || match;
+    return match || childMatch;
+  };
+  if (rootEntry) walk(rootEntry);
+}
+
+const rootEntry = data.root ? render(data.root, main) : undefined;
+if (rootEntry) rootEntry.details.open = true;
+lensBoxes.forEach(b => b.addEventListener('change', applyLenses));
+filter.addEventListener('input', applyFilter);
+document.getElementById('expand').addEventListener('click', () => entries.forEach(e => { if (!e.details.classList.contains('hidden')) e.details.open = true; }));
+document.getElementById('collapse').addEventListener('click', () => entries.forEach(e => { e.details.open = false; }));
+applyLenses();
+`;
+
+// Single offline file: styles, script and data are all inlined
+export function renderHtmlReport(summaries: PRRSSummaries, options: HtmlReportOptions = {}): string {
+  const root = path.resolve(options.root ?? '.');
+  const title = options.title ?? 'PRRS Report';
+  const lenses = Object.keys(summaries).filter(lens => summaries[lens] && typeof summaries[lens].summary === 'string');
+  const data = { lenses, generatedAt: new Date().toISOString(), root: mergeLenses(summaries, root) ?? null };
+
+  const lensToggles = lenses
+    .map(lens => `<label><input type="checkbox" name="lens" value="${escapeHtml(lens)}" checked> ${escapeHtml(lens)}</label>`)
+    .join('\n      ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(title)}</h1>
+  <div class="meta">Generated ${escapeHtml(data.generatedAt)} · lenses: ${escapeHtml(lenses.join(', '))}</div>
+  <div class="controls">
+    <input type="search" id="filter" placeholder="Filter paths, summaries, exports…">
+    <button type="button" id="expand">Expand all</button>
+    <button type="button" id="collapse">Collapse all</button>
+    <span>Lenses:</span>
+      ${lensToggles}
+  </div>
+</header>
+<main></main>
+<script type="application/json" id="prrs-data">${embedJson(data)}</script>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,114 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { summariesOf } from './schema.js';
+import type { PRRSSummaries, SummaryNode } from './prrs.js';
+
+const execFileAsync = promisify(execFile);
+
+// A previous --output json result plus the set of paths touched since a git ref.
+// Nodes outside the dirty set are carried over verbatim instead of being re-summarized.
+export interface IncrementalBase {
+  ref: string;
+  changedFiles: string[];
+  stats: { reused: number };
+  reuse(nodePath: string, lens: string): SummaryNode | undefined;
+}
+
+// stdout of a git command run in cwd; throws with git's own message
+export async function git(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 16 * 1024 * 1024 });
+    return stdout;
+  } catch (error: any) {
+    throw new Error(`git ${args.join(' ')} failed: ${(error.stderr || error.message || '').toString().trim()}`);
+  }
+}
+
+// Absolute paths of files changed (tracked diff vs ref, plus untracked) since `ref`
+export async function getChangedFiles(folderPath: string, ref: string): Promise<string[]> {
+  const cwd = fs.statSync(folderPath).isDirectory() ? folderPath : path.dirname(folderPath);
+  const root = (await git(cwd, ['rev-parse', '--show-toplevel'])).trim();
+  const tracked = await git(root, ['diff', '--name-only', ref, '--']);
+  const untracked = await git(root, ['ls-files', '--others', '--exclude-standard']);
+  const files = [...tracked.split('\n'), ...untracked.split('\n')]
+    .map(f => f.trim())
+    .filter(Boolean)
+    .map(f => path.resolve(root, f));
+  return [...new Set(files)];
+}
+
+// HEAD of the repository containing folderPath (provenance of a result); undefined outside git
+export interface RepoState {
+  commit: string;
+  branch?: string;   // absent on a detached HEAD
+  dirty: boolean;    // uncommitted changes under folderPath
+}
+
+export async function getRepoState(folderPath: string): Promise<RepoState | undefined> {
+  const cwd = fs.statSync(folderPath).isDirectory() ? folderPath : path.dirname(folderPath);
+  try {
+    const commit = (await git(cwd, ['rev-parse', 'HEAD'])).trim();
+    const branch = (await git(cwd, ['rev-parse', '--abbrev-ref', 'HEAD'])).trim();
+    const status = await git(cwd, ['status', '--porcelain', '--', '.']);
+    return { commit, ...(branch !== 'HEAD' ? { branch } : {}), dirty: status.trim().length > 0 };
+  } catch {
+    return undefined;
+  }
+}
+
+function indexTree(node: SummaryNode, index: Map<string, SummaryNode>) {
+  if (node.path) index.set(path.resolve(node.path), node);
+  node.children.forEach(child => indexTree(child, index));
+}
+
+function isComplete(node: SummaryNode): boolean {
+  return node.status !== 'error' && node.status !== 'skipped' && node.children.every(isComplete);
+}
+
+export async function loadIncrementalBase(resultFile: string, ref: string, folderPath: string): Promise<IncrementalBase> {
+  const previous = summariesOf(await fs.readJson(resultFile));
+  if (!Object.keys(previous).length) {
+    throw new Error(`${resultFile}: not a PRRS JSON result`);
+  }
+  return createIncrementalBase(previous, await getChangedFiles(folderPath, ref), ref);
+}
+
+// Same, from summaries already in memory and an explicit list of changed paths (prrs watch)
+export function createIncrementalBase(previous: PRRSSummaries, changedFiles: string[], ref: string): IncrementalBase {
+  // Changed files and all their ancestors must be recomputed (deleted files dirty their parents too)
+  const dirty = new Set<string>();
+  for (const file of changedFiles) {
+    let cur = path.resolve(file);
+    while (!dirty.has(cur)) {
+      dirty.add(cur);
+      const parent = path.dirname(cur);
+      if (parent === cur) break;
+      cur = parent;
+    }
+  }
+
+  const indexes = new Map<string, Map<string, SummaryNode>>();
+  for (const [lens, root] of Object.entries(previous)) {
+    const index = new Map<string, SummaryNode>();
+    if (root && typeof root === 'object' && Array.isArray(root.children)) indexTree(root, index);
+    indexes.set(lens, index);
+  }
+
+  const stats = { reused: 0 };
+  return {
+    ref,
+    changedFiles,
+    stats,
+    reuse(nodePath, lens) {
+      const abs = path.resolve(nodePath);
+      if (dirty.has(abs)) return undefined;
+      const node = indexes.get(lens)?.get(abs);
+      // Subtrees with failed or skipped (budget) nodes are retried rather than carried over
+      if (!node || !isComplete(node)) return undefined;
+      stats.reused++;
+      return node;
+    },
+  };
+}
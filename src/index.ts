@@ -2,71 +2,632 @@
 import { Command } from 'commander';
 import fs from 'fs-extra';
 import path from 'path';
-import { prrs } from './prrs.js';
+import { prrs, estimateMaxChunkChars, type PRRSOptions, type PRRSSummaries } from './prrs.js';
+import { modelMap, loadModelDefinitions, registerModel, getModelDefinition, resolveModel } from './models.js';
+import { listProviders } from './providers.js';
+import { createLensRegistry, getLens } from './lenses.js';
+import { formatMetadataBadges } from './metadata.js';
+import { renderMarkdownReport } from './markdown-report.js';
+import { renderHtmlReport } from './html-report.js';
+import { collectFindings, meetsSeverity, parseSeverity, type Severity } from './findings.js';
+import { toSarif } from './sarif.js';
+import { DEFAULT_PRICES_FILE, createUsageTracker, formatUsage, type UsageReport } from './usage.js';
+import { planRun, formatPlan } from './plan.js';
+import { createFileFilter, listFiles, type FileFilterOptions } from './file-filter.js';
+import { loadSummaries, askSummaries, formatAnswer } from './ask.js';
+import { withCallPolicy, DEFAULT_CALL_POLICY, type CallPolicy } from './resilience.js';
+import { buildSearchIndex, saveSearchIndex, loadSearchIndex, searchIndex, formatHits, DEFAULT_INDEX_FILE } from './search.js';
+import { watchRepo, DEFAULT_DEBOUNCE_MS } from './watch.js';
+import { createProgressRenderer, LOG_FORMATS } from './progress.js';
+import { PRRS_VERSION } from './analyze.js';
+import { RESULT_VERSION, outputSchema, resultSchema, summariesOf } from './schema.js';
+import { buildDependencyGraph, annotateGraph, renderGraph } from './graph.js';
+import { reviewDiff, formatReviewMarkdown, toGitHubReview } from './review.js';
+import { compareSummaries, formatComparison } from './compare.js';
 
-// Vérif env key early
-if (!process.env.OPENROUTER_API_KEY) {
-  console.error('Error: Set OPENROUTER_API_KEY (run source secrets.sh or export).');
-  process.exit(1);
+// --include/--exclude: "a,b" and repeated flags accumulate
+function collectGlobs(value: string, previous: string[] = []): string[] {
+  return [...previous, ...value.split(',').map(glob => glob.trim()).filter(Boolean)];
 }
 
 // CLI setup (identique à ton code)
 const program = new Command()
   .name('prrs')
   .description('PRRS: Prompt-based Recursive Repo Summarizer (multi-lens code analysis via Grok/OpenRouter)')
-  .version('1.0.0')
+  .version(PRRS_VERSION)
   .option('-p, --path <dir>', 'Target folder to analyze', '.')
   .option('-l, --lenses <list>', 'Comma-separated lenses (e.g., architecture,data_flow,security)', 'architecture')
-  .option('-m, --model <key>', 'LLM model from modelMap (e.g., g4f-no-reasoning)', 'g4f-reasoning')
+  .option('-m, --model <key>', 'LLM model from modelMap or provider:modelId (e.g., g4f-no-reasoning, mock, openai-compatible:llama3)', 'g4f-reasoning')
   .option('-d, --depth <num>', 'Max recursion depth', '3')
-  .option('-o, --output <format>', 'Output format: json (full), tree (ascii), console (simple)', 'console')
-  .option('-v, --verbose', 'Enable verbose logging');
+  .option('-o, --output <format>', 'Output format: json (full), tree (ascii), markdown (report), html (interactive report), sarif (findings), console (simple)', 'console')
+  .option('--report <file>', 'Also write the full report to this file (.html = interactive HTML, otherwise Markdown)')
+  .option('--models-file <file>', 'JSON file with extra model definitions (default: ./prrs.models.json if present)')
+  .option('--base-url <url>', 'Treat --model as a model id served by this OpenAI-compatible endpoint (Ollama, llama.cpp, vLLM)')
+  .option('--context-window <tokens>', 'Override the model context window (tokens)')
+  .option('--max-output-tokens <tokens>', 'Override the model completion token cap (per call)')
+  .option('--lenses-dir <dir>', 'Directory of project lens definitions (*.json, *.yaml)', 'lenses')
+  .option('--single-pass', 'With several lenses: walk, read and chunk the repo once, one combined ranking call per file')
+  .option('--no-cache', 'Bypass the summary cache (always call the LLM)')
+  .option('--clear-cache', 'Delete the summary cache before running')
+  .option('--cache-dir <dir>', 'Summary cache location', '.prrs-cache')
+  .option('--previous <file>', 'Previous --output json result to reuse (incremental mode, with --since)')
+  .option('--since <ref>', 'Git ref: only re-summarize files changed since it (with --previous)')
+  .option('-c, --concurrency <num>', 'Max files/folders processed in parallel', '4')
+  .option('--rpm <num>', 'Max LLM requests per minute (default: unlimited)')
+  .option('--retries <num>', 'Retries on 429/5xx/timeouts, with exponential backoff', '3')
+  .option('--timeout <ms>', 'Per-call LLM timeout in milliseconds', '120000')
+  .option('--max-cost <usd>', 'Stop calling the LLM once the run has cost this much (USD); unprocessed nodes are marked skipped')
+  .option('--max-tokens <tokens>', 'Stop calling the LLM once the run has used this many tokens (input + output)')
+  .option('--prices <file>', 'Price table (USD per token) for models without pricing (default: ./prrs.prices.json if present)')
+  .option('--fail-on <severity>', 'Exit with code 2 when a finding is at least this severe (critical, high, medium, low, info)')
+  .option('--no-metadata', 'Skip static metadata extraction (exports, imports, complexity, LOC)')
+  .option('--symbols', 'Also summarize significant exported symbols (JS/TS) as child nodes of their file')
+  .option('--badges', 'Show metadata badges (LOC, complexity, exports, deps) in tree output')
+  .option('--include <globs>', 'Only analyze files matching these gitignore-style globs (comma-separated, repeatable)', collectGlobs)
+  .option('--exclude <globs>', 'Also ignore these gitignore-style globs (comma-separated, repeatable)', collectGlobs)
+  .option('--no-gitignore', 'Do not honor .gitignore files (.prrsignore and built-in excludes still apply)')
+  .option('--list-files', 'Print the files that would be sent to the model, then exit (no model call)')
+  .option('--dry-run', 'Estimate files, chunks, LLM calls, tokens and cost without calling any model (same as `prrs plan`)')
+  .option('--log-format <format>', 'Progress on stderr: pretty (progress bar, or log lines with --verbose) or json (NDJSON events)', 'pretty')
+  .option('-v, --verbose', 'Log every node (pretty log format) and extra details on stderr');
+
+// Register model definitions from --models-file / prrs.models.json and inline --base-url flags
+async function configureModels(options: any) {
+  const modelsFile = options.modelsFile || (fs.existsSync('prrs.models.json') ? 'prrs.models.json' : undefined);
+  if (modelsFile) {
+    const keys = await loadModelDefinitions(modelsFile);
+    if (options.verbose) console.error(`Loaded models from ${modelsFile}: ${keys.join(', ')}`);
+  }
+
+  const overrides: { contextWindow?: number; maxTokens?: number } = {};
+  for (const [field, option, flag] of [['contextWindow', 'contextWindow', '--context-window'], ['maxTokens', 'maxOutputTokens', '--max-output-tokens']] as const) {
+    if (options[option] === undefined) continue;
+    const value = parseInt(options[option], 10);
+    if (isNaN(value) || value < 1) throw new Error(`${flag} must be a positive number.`);
+    overrides[field] = value;
+  }
+
+  if (options.baseUrl) {
+    registerModel(options.model, { provider: 'openai-compatible', modelId: options.model, baseURL: options.baseUrl, ...overrides });
+  } else if (Object.keys(overrides).length > 0) {
+    registerModel(options.model, { ...getModelDefinition(options.model), ...overrides });
+  }
+}
+
+const filterOptions = (options: any): FileFilterOptions => ({ include: options.include, exclude: options.exclude, gitignore: options.gitignore });
+
+// What a run would read (prrs --list-files): paths relative to cwd, one per line
+async function runListFiles(options: any) {
+  const maxDepth = parseInt(options.depth, 10);
+  if (!fs.existsSync(options.path)) {
+    console.error(`Error: Path "${options.path}" not found.`);
+    process.exit(1);
+  }
+  if (isNaN(maxDepth) || maxDepth < 1) {
+    console.error('Error: --depth must be a positive number.');
+    process.exit(1);
+  }
+  const files = await listFiles(options.path, createFileFilter(options.path, filterOptions(options)), maxDepth);
+  files.forEach(file => console.log(path.relative(process.cwd(), file) || file));
+  if (options.verbose) console.error(`${files.length} file(s)`);
+}
+
+// Offline estimate of a run (prrs plan / --dry-run)
+async function runPlan(options: any) {
+  const maxDepth = parseInt(options.depth, 10);
+  if (!fs.existsSync(options.path)) {
+    console.error(`Error: Path "${options.path}" not found.`);
+    process.exit(1);
+  }
+  if (isNaN(maxDepth) || maxDepth < 1) {
+    console.error('Error: --depth must be a positive number.');
+    process.exit(1);
+  }
+  try {
+    await configureModels(options);
+    const pricesFile = options.prices || (fs.existsSync(DEFAULT_PRICES_FILE) ? DEFAULT_PRICES_FILE : undefined);
+    const report = await planRun(options.path, options.lenses.split(','), options.model, maxDepth, { lensesDir: options.lensesDir, pricesFile, symbols: options.symbols, singlePass: options.singlePass, ...filterOptions(options) });
+    console.log(options.output === 'json' ? JSON.stringify(report, null, 2) : formatPlan(report));
+  } catch (error: any) {
+    console.error('PRRS Error:', error.message || error);
+    process.exit(1);
+  }
+}
+
+program
+  .command('plan')
+  .description('Dry run: walk the tree and estimate files, chunks, LLM calls, tokens and cost (offline, no model call)')
+  .action(async () => {
+    await runPlan(program.opts());
+  });
+
+// Options shared by prrs and watch, validated (exits on invalid values)
+function resolveRunOptions(options: any): { maxDepth: number; run: PRRSOptions; failOn?: Severity } {
+  const { path: folderPath, depth, cache, cacheDir, clearCache, previous, since, lensesDir } = options;
+  const concurrency = parseInt(options.concurrency, 10);
+  const retries = parseInt(options.retries, 10);
+  const timeoutMs = parseInt(options.timeout, 10);
+  const requestsPerMinute = options.rpm !== undefined ? parseInt(options.rpm, 10) : undefined;
+
+  if (!fs.existsSync(folderPath)) {
+    console.error(`Error: Path "${folderPath}" not found.`);
+    process.exit(1);
+  }
+  const maxDepth = parseInt(depth, 10);
+  if (isNaN(maxDepth) || maxDepth < 1) {
+    console.error('Error: --depth must be a positive number.');
+    process.exit(1);
+  }
+  if (isNaN(concurrency) || concurrency < 1) {
+    console.error('Error: --concurrency must be a positive number.');
+    process.exit(1);
+  }
+  if (isNaN(retries) || retries < 0 || isNaN(timeoutMs) || timeoutMs < 1 || (requestsPerMinute !== undefined && (isNaN(requestsPerMinute) || requestsPerMinute < 1))) {
+    console.error('Error: --retries, --timeout and --rpm must be valid numbers.');
+    process.exit(1);
+  }
+  if (previous && !fs.existsSync(previous)) {
+    console.error(`Error: Previous result "${previous}" not found.`);
+    process.exit(1);
+  }
+  const maxCost = options.maxCost !== undefined ? parseFloat(options.maxCost) : undefined;
+  const maxTokens = options.maxTokens !== undefined ? parseInt(options.maxTokens, 10) : undefined;
+  if ((maxCost !== undefined && (isNaN(maxCost) || maxCost <= 0)) || (maxTokens !== undefined && (isNaN(maxTokens) || maxTokens < 1))) {
+    console.error('Error: --max-cost and --max-tokens must be positive numbers.');
+    process.exit(1);
+  }
+  const budget = maxCost !== undefined || maxTokens !== undefined ? { maxCost, maxTokens } : undefined;
+  const pricesFile = options.prices || (fs.existsSync(DEFAULT_PRICES_FILE) ? DEFAULT_PRICES_FILE : undefined);
+  let failOn: Severity | undefined;
+  try {
+    failOn = options.failOn ? parseSeverity(options.failOn) : undefined;
+  } catch (error: any) {
+    console.error(`Error: --fail-on: ${error.message}`);
+    process.exit(1);
+  }
+  if (!LOG_FORMATS.includes(options.logFormat)) {
+    console.error(`Error: --log-format must be one of ${LOG_FORMATS.join(', ')}.`);
+    process.exit(1);
+  }
+  const run: PRRSOptions = {
+    cache, cacheDir, clearCache, previous, since, concurrency, lensesDir, metadata: options.metadata,
+    callPolicy: { retries, timeoutMs, requestsPerMinute },
+    budget, pricesFile, symbols: options.symbols, singlePass: options.singlePass, ...filterOptions(options),
+    onProgress: createProgressRenderer({ format: options.logFormat, verbose: options.verbose }),  // stdout is kept for the result
+  };
+  return { maxDepth, run, failOn };
+}
+
+// Warnings of the commands without a run (ask, review, compare), rendered like a run's (--log-format)
+function warningSink(options: any): (message: string) => void {
+  const render = createProgressRenderer({ format: options.logFormat, verbose: options.verbose });
+  return message => render({ type: 'warning', message });
+}
+
+// --retries/--timeout of the commands calling the model directly (ask, review, compare --llm); exits on invalid values
+function resolveCallPolicy(options: any): CallPolicy {
+  const retries = parseInt(options.retries, 10);
+  const timeoutMs = parseInt(options.timeout, 10);
+  if (isNaN(retries) || retries < 0 || isNaN(timeoutMs) || timeoutMs < 1) {
+    console.error('Error: --retries and --timeout must be valid numbers.');
+    process.exit(1);
+  }
+  return { ...DEFAULT_CALL_POLICY, retries, timeoutMs };
+}
+
+// A result in the --output format, newline-terminated
+function renderOutput(summaries: PRRSSummaries, options: any, usage?: UsageReport): string {
+  switch (options.output) {
+    case 'json':
+      return `${JSON.stringify({ version: RESULT_VERSION, usage, summaries }, null, 2)}\n`;  // versionné comme l'enveloppe d'analyze()
+    case 'tree':
+      return `${formatTree(summaries, !!options.badges)}\n`;  // Upgradé : gère multi-lenses, filtre skips, prefixes fix
+    case 'markdown':
+      return renderMarkdownReport(summaries, { root: options.path });
+    case 'html':
+      return renderHtmlReport(summaries, { root: options.path });
+    case 'sarif':
+      return `${JSON.stringify(toSarif(summaries), null, 2)}\n`;  // URIs relative to cwd (run from the repo root)
+    case 'console':
+    default:
+      return Object.entries(summaries).map(([lens, node]) => {
+        const lines = [`\n=== ${lens.toUpperCase()} Summary ===`, node.summary];
+        if (options.verbose) lines.push(`Tree depth: ${getTreeDepth(node)} nodes`);
+        return `${lines.join('\n')}\n`;
+      }).join('');
+  }
+}
 
 program
   .command('prrs')
   .description('Run PRRS analysis')
   .action(async (cmdOptions) => {
     const options = { ...program.opts(), ...cmdOptions };
-    const { path: folderPath, lenses, model, depth, output, verbose } = options;
+    if (options.listFiles) return runListFiles(options);
+    if (options.dryRun) return runPlan(options);
+    const { path: folderPath, lenses, model, verbose } = options;
+    const { maxDepth, run, failOn } = resolveRunOptions(options);
+    if (verbose && options.logFormat !== 'json') console.error(`Starting PRRS on "${folderPath}" with lenses: ${lenses}, model: ${model}, depth: ${maxDepth}`);
 
+    try {
+      await configureModels(options);
+      let usage: UsageReport | undefined;
+      const summaries = await prrs(folderPath, lenses.split(','), model, maxDepth, { ...run, onUsage: report => { usage = report; } });
+
+      process.stdout.write(renderOutput(summaries, options, usage));
+
+      if (options.report) {
+        const render = /\.html?$/i.test(options.report) ? renderHtmlReport : renderMarkdownReport;
+        await fs.outputFile(options.report, render(summaries, { root: folderPath }));
+        console.error(`Report written to ${options.report}`);
+      }
+
+      if (failOn) {
+        const blocking = collectFindings(summaries).filter(f => meetsSeverity(f.severity, failOn!));
+        if (blocking.length) {
+          console.error(`${blocking.length} finding(s) at or above "${failOn}":`);
+          blocking.forEach(f => console.error(`  [${f.severity}] ${f.file}:${f.startLine} ${f.title}`));
+          process.exit(2);
+        }
+      }
+    } catch (error: any) {
+      console.error('PRRS Error:', error.message || error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('watch')
+  .description('Analyze, then re-summarize changed files (and their folders) on every edit and re-render the output')
+  .option('--out <file>', 'Re-render the output (--output format) into this file instead of stdout')
+  .option('--debounce <ms>', 'Quiet time after the last edit before re-analyzing', String(DEFAULT_DEBOUNCE_MS))
+  .action(async (cmdOptions) => {
+    const options = { ...program.opts(), ...cmdOptions };
+    const { path: folderPath, lenses, model } = options;
+    const { maxDepth, run } = resolveRunOptions(options);
+    const debounceMs = parseInt(options.debounce, 10);
+    if (isNaN(debounceMs) || debounceMs < 0) {
+      console.error('Error: --debounce must be a number of milliseconds.');
+      process.exit(1);
+    }
+    if (!fs.statSync(folderPath).isDirectory()) {
+      console.error(`Error: watch needs a folder, "${folderPath}" is a file.`);
+      process.exit(1);
+    }
+    if (run.previous) {
+      console.error('Error: watch does not take --previous/--since (each pass reuses the previous one).');
+      process.exit(1);
+    }
+
+    try {
+      await configureModels(options);
+      let usage: UsageReport | undefined;
+      const watcher = await watchRepo(folderPath, lenses.split(','), model, maxDepth, {
+        ...run, debounceMs, onUsage: report => { usage = report; },
+        ignorePaths: [options.out, options.report].filter(Boolean),
+        onUpdate: async (summaries, changed) => {
+          const when = new Date().toLocaleTimeString();
+          const what = changed.length ? `${changed.length} change(s): ${changed.map(p => path.relative(process.cwd(), p) || '.').join(', ')}` : 'initial analysis';
+          if (options.out) {
+            await fs.outputFile(options.out, renderOutput(summaries, options, usage));
+            console.error(`[${when}] ${what} → ${options.out} updated`);
+          } else {
+            process.stdout.write(`\n--- [${when}] ${what} ---\n${renderOutput(summaries, options, usage)}`);
+          }
+          if (options.report) {
+            const render = /\.html?$/i.test(options.report) ? renderHtmlReport : renderMarkdownReport;
+            await fs.outputFile(options.report, render(summaries, { root: folderPath }));
+          }
+        },
+      });
+      console.error(`Watching ${path.resolve(folderPath)} (Ctrl+C to stop)`);
+      process.once('SIGINT', () => {
+        watcher.close();
+        process.exit(0);
+      });
+    } catch (error: any) {
+      console.error('PRRS Error:', error.message || error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('models')
+  .description('List configured models and available LLM providers')
+  .action(async () => {
+    try {
+      await configureModels(program.opts());
+    } catch (error: any) {
+      console.error('PRRS Error:', error.message || error);
+      process.exit(1);
+    }
+    console.log('Models:');
+    Object.entries(modelMap).forEach(([key, def]) => {
+      const details = [def.baseURL, def.contextWindow && `ctx=${def.contextWindow}`].filter(Boolean).join(' ');
+      console.log(`  ${key.padEnd(22)} ${def.provider}:${def.modelId}${details ? ` (${details})` : ''}`);
+    });
+    console.log('\nProviders (use --model <provider>:<modelId>):');
+    listProviders().forEach(p => console.log(`  ${p.name.padEnd(22)} ${p.description}`));
+  });
+
+program
+  .command('graph')
+  .description('Export the module dependency graph (relative imports, .js→.ts remap, index files) and detect cycles')
+  .option('-f, --format <format>', 'dot | mermaid | json', 'dot')
+  .option('--level <level>', 'file | folder', 'file')
+  .option('--from <result>', 'Previous --output json result: annotate nodes with their lens summary')
+  .option('--lens <name>', 'Lens to take summaries from (with --from; default: first lens)')
+  .option('--type-imports', 'Include type-only imports (erased at runtime)')
+  .option('--fail-on-cycle', 'Exit with code 2 when an import cycle is found')
+  .action(async (cmdOptions) => {
+    const { path: folderPath, ...globalOptions } = program.opts();
+    const { format, level, from, lens, failOnCycle, typeImports } = cmdOptions;
+    if (!['dot', 'mermaid', 'json'].includes(format) || !['file', 'folder'].includes(level)) {
+      console.error('Error: --format must be dot|mermaid|json and --level file|folder.');
+      process.exit(1);
+    }
     if (!fs.existsSync(folderPath)) {
       console.error(`Error: Path "${folderPath}" not found.`);
       process.exit(1);
     }
-    const maxDepth = parseInt(depth, 10);
+    try {
+      const graph = await buildDependencyGraph(folderPath, level, !!typeImports, filterOptions(globalOptions));
+      if (from) {
+        const summaries = summariesOf(await fs.readJson(from));
+        annotateGraph(graph, summaries, lens || Object.keys(summaries)[0]);
+      }
+      console.log(renderGraph(graph, format));
+      if (graph.cycles.length) {
+        console.error(`${graph.cycles.length} import cycle(s):`);
+        graph.cycles.forEach(cycle => console.error(`  [${cycle.join(', ')}]`));
+        if (failOnCycle) process.exit(2);
+      }
+    } catch (error: any) {
+      console.error('PRRS Error:', error.message || error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('ask <question>')
+  .description('Answer a question from a previous --output json result, with citations (walks the summary tree, pulls in code)')
+  .requiredOption('--from <result>', 'Previous --output json result')
+  .option('--lens <names>', 'Comma-separated lenses to search (default: every lens of the result)')
+  .option('--breadth <num>', 'Children kept at each level of the walk', '3')
+  .option('--max-nodes <num>', 'Max nodes expanded per lens (one selection call each)', '8')
+  .option('--no-code', 'Answer from the summaries only (do not read the selected files)')
+  .action(async (question: string, cmdOptions) => {
+    const options = { ...program.opts(), ...cmdOptions };
+    const breadth = parseInt(options.breadth, 10);
+    const maxNodes = parseInt(options.maxNodes, 10);
+    if (isNaN(breadth) || breadth < 1 || isNaN(maxNodes) || maxNodes < 1) {
+      console.error('Error: --breadth and --max-nodes must be positive numbers.');
+      process.exit(1);
+    }
+    const policy = resolveCallPolicy(options);
+    if (!fs.existsSync(options.from)) {
+      console.error(`Error: Result "${options.from}" not found.`);
+      process.exit(1);
+    }
+    try {
+      await configureModels(options);
+      const summaries = await loadSummaries(options.from);
+      const warn = warningSink(options);
+      const model = withCallPolicy(resolveModel(options.model), { ...policy, onRetry: warn });
+      const meter = createUsageTracker().meter('ask');
+      const result = await askSummaries(question, summaries, model, {
+        lenses: options.lens?.split(','), code: options.code, breadth, maxNodes,
+        maxChunkChars: await estimateMaxChunkChars(options.model, false, warn), meter, warn,
+      });
+      console.log(options.output === 'json' ? JSON.stringify(result, null, 2) : formatAnswer(result));
+      if (options.verbose) console.error(`Visited: ${result.visited.join(', ')}\nUsage: ${formatUsage(meter.usage)}`);
+    } catch (error: any) {
+      console.error('PRRS Error:', error.message || error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('review')
+  .description('Review the changes since the merge base with --base: line-anchored comments per lens and a PR summary (markdown, json, or github = review API payload)')
+  .option('--base <ref>', 'Branch or commit the change is reviewed against', 'main')
+  .action(async (cmdOptions) => {
+    const options = { ...program.opts(), ...cmdOptions };
+    if (!fs.existsSync(options.path)) {
+      console.error(`Error: Path "${options.path}" not found.`);
+      process.exit(1);
+    }
+    let failOn: Severity | undefined;
+    try {
+      failOn = options.failOn ? parseSeverity(options.failOn) : undefined;
+    } catch (error: any) {
+      console.error(`Error: --fail-on: ${error.message}`);
+      process.exit(1);
+    }
+    const policy = resolveCallPolicy(options);
+    try {
+      await configureModels(options);
+      const warn = warningSink(options);
+      const model = withCallPolicy(resolveModel(options.model), { ...policy, onRetry: warn });
+      const tracker = createUsageTracker();
+      const result = await reviewDiff(options.path, options.base, model, {
+        lenses: options.lenses.split(','), lensesDir: options.lensesDir, tracker, warn,
+        maxChunkChars: await estimateMaxChunkChars(options.model, false, warn), ...filterOptions(options),
+      });
+      result.usage = tracker.report(options.model);
+      if (options.output === 'json') console.log(JSON.stringify(result, null, 2));
+      else if (options.output === 'github') console.log(JSON.stringify(toGitHubReview(result), null, 2));
+      else process.stdout.write(formatReviewMarkdown(result));
+      if (options.verbose) console.error(`Usage: ${formatUsage(result.usage)}`);
+
+      if (failOn) {
+        const blocking = result.comments.filter(c => meetsSeverity(c.severity, failOn!));
+        if (blocking.length) {
+          console.error(`${blocking.length} review comment(s) at or above "${failOn}":`);
+          blocking.forEach(c => console.error(`  [${c.severity}] ${c.path}:${c.line} ${c.title}`));
+          process.exit(2);
+        }
+      }
+    } catch (error: any) {
+      console.error('PRRS Error:', error.message || error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('compare <old> <new>')
+  .description('Drift between two --output json results: added, removed and changed nodes per lens, new risk language and findings')
+  .option('--lens <names>', 'Comma-separated lenses to compare (default: lenses present in both results)')
+  .option('--llm', 'Describe changed nodes with --model instead of the sentence diff only')
+  .option('--max-described <num>', 'With --llm: changed nodes described per lens, biggest shifts first', '20')
+  .action(async (oldFile: string, newFile: string, cmdOptions) => {
+    const options = { ...program.opts(), ...cmdOptions };
+    const maxDescribed = parseInt(options.maxDescribed, 10);
+    if (isNaN(maxDescribed) || maxDescribed < 1) {
+      console.error('Error: --max-described must be a positive number.');
+      process.exit(1);
+    }
+    for (const file of [oldFile, newFile]) {
+      if (!fs.existsSync(file)) {
+        console.error(`Error: Result "${file}" not found.`);
+        process.exit(1);
+      }
+    }
+    let failOn: Severity | undefined;
+    try {
+      failOn = options.failOn ? parseSeverity(options.failOn) : undefined;
+    } catch (error: any) {
+      console.error(`Error: --fail-on: ${error.message}`);
+      process.exit(1);
+    }
+    const policy = options.llm ? resolveCallPolicy(options) : undefined;
+    try {
+      const tracker = createUsageTracker();
+      const warn = warningSink(options);
+      let model;
+      if (policy) {
+        await configureModels(options);
+        model = withCallPolicy(resolveModel(options.model), { ...policy, onRetry: warn });
+      }
+      const report = await compareSummaries(await loadSummaries(oldFile), await loadSummaries(newFile), {
+        lenses: options.lens?.split(','), model, maxDescribed, tracker, warn,
+      });
+      console.log(options.output === 'json' ? JSON.stringify(report, null, 2) : formatComparison(report).trimEnd());
+      if (options.llm && options.verbose) console.error(`Usage: ${formatUsage(tracker.report(options.model))}`);
+
+      if (failOn) {
+        const blocking = report.changes.flatMap(c => c.findings?.added ?? []).filter(f => meetsSeverity(f.severity, failOn!));
+        if (blocking.length) {
+          console.error(`${blocking.length} new finding(s) at or above "${failOn}":`);
+          blocking.forEach(f => console.error(`  [${f.severity}] ${f.file}:${f.startLine} ${f.title}`));
+          process.exit(2);
+        }
+      }
+    } catch (error: any) {
+      console.error('PRRS Error:', error.message || error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('index')
+  .description('Build the offline search index (BM25) over the chunks of --path and the summaries of a result')
+  .option('--from <result>', 'Previous --output json result whose node summaries are indexed too')
+  .option('--index <file>', 'Index file', DEFAULT_INDEX_FILE)
+  .action(async (cmdOptions) => {
+    const options = { ...program.opts(), ...cmdOptions };
+    const maxDepth = parseInt(options.depth, 10);
+    if (!fs.existsSync(options.path)) {
+      console.error(`Error: Path "${options.path}" not found.`);
+      process.exit(1);
+    }
     if (isNaN(maxDepth) || maxDepth < 1) {
       console.error('Error: --depth must be a positive number.');
       process.exit(1);
     }
-    if (verbose) console.log(`Starting PRRS on "${folderPath}" with lenses: ${lenses}, model: ${model}, depth: ${maxDepth}`);
+    try {
+      await configureModels(options);
+      const summaries = options.from ? await loadSummaries(options.from) : undefined;
+      const index = await buildSearchIndex(options.path, {
+        filter: createFileFilter(options.path, filterOptions(options)), maxDepth,
+        maxChunkChars: await estimateMaxChunkChars(options.model, true), summaries,
+      });
+      await saveSearchIndex(index, options.index);
+      const chunks = index.docs.filter(doc => doc.kind === 'chunk');
+      console.log(`Indexed ${chunks.length} chunks from ${new Set(chunks.map(doc => doc.path)).size} files and ${index.docs.length - chunks.length} summaries into ${options.index}`);
+      if (!summaries) console.error('No --from result: summaries are not indexed (code vocabulary only).');
+    } catch (error: any) {
+      console.error('PRRS Error:', error.message || error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('search <query>')
+  .description('Search the offline index (prrs index): ranked chunks and summaries with paths and line ranges')
+  .option('--index <file>', 'Index file', DEFAULT_INDEX_FILE)
+  .option('-n, --limit <num>', 'Max hits', '10')
+  .option('--kind <kind>', 'Only chunk or summary hits')
+  .option('--lens <name>', 'Only summaries of this lens (and show it next to code hits)')
+  .action(async (query: string, cmdOptions) => {
+    const options = { ...program.opts(), ...cmdOptions };
+    const limit = parseInt(options.limit, 10);
+    if (isNaN(limit) || limit < 1 || (options.kind && !['chunk', 'summary'].includes(options.kind))) {
+      console.error('Error: --limit must be a positive number and --kind chunk|summary.');
+      process.exit(1);
+    }
+    try {
+      const hits = searchIndex(await loadSearchIndex(options.index), query, { limit, kind: options.kind, lens: options.lens });
+      console.log(options.output === 'json' ? JSON.stringify(hits, null, 2) : formatHits(hits));
+    } catch (error: any) {
+      console.error('PRRS Error:', error.message || error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('schema')
+  .description('Print the JSON Schema of --output json results (or of the analyze() envelope with --envelope)')
+  .option('--envelope', 'Schema of the versioned analyze() result instead')
+  .action((cmdOptions) => {
+    console.log(JSON.stringify(cmdOptions.envelope ? resultSchema : outputSchema, null, 2));
+  });
+
+const lensesCommand = program
+  .command('lenses')
+  .description('Inspect lens definitions (built-in + --lenses-dir)');
+
+lensesCommand
+  .command('list')
+  .description('List available lenses')
+  .action(async () => {
+    try {
+      const registry = await createLensRegistry(program.opts().lensesDir);
+      Object.values(registry).forEach(lens => {
+        console.log(`  ${lens.name.padEnd(18)} ${lens.description} [${lens.source}]`);
+      });
+    } catch (error: any) {
+      console.error('PRRS Error:', error.message || error);
+      process.exit(1);
+    }
+  });
 
+lensesCommand
+  .command('show <name>')
+  .description('Print a lens definition (unknown names show the generic lens)')
+  .action(async (name: string) => {
     try {
-      const summaries = await prrs(folderPath, lenses.split(','), model, maxDepth);
-
-      switch (output) {
-        case 'json':
-          console.log(JSON.stringify(summaries, null, 2));
-          break;
-        case 'tree':
-          printTree(summaries);  // Upgradé : gère multi-lenses, filtre skips, prefixes fix
-          break;
-        case 'console':
-        default:
-          Object.entries(summaries).forEach(([lens, node]) => {
-            console.log(`\n=== ${lens.toUpperCase()} Summary ===`);
-            console.log(node.summary);
-            if (verbose) console.log(`Tree depth: ${getTreeDepth(node)} nodes`);
-          });
-          break;
-      }
+      const registry = await createLensRegistry(program.opts().lensesDir);
+      console.log(JSON.stringify(getLens(name, registry), null, 2));
     } catch (error: any) {
       console.error('PRRS Error:', error.message || error);
       process.exit(1);
     }
   });
 
-// Helper upgradé : Print tree avec proper ASCII (filtre skips auto, prefixes standards)
-function printTree(summaries: any) {
+// Helper upgradé : Format tree avec proper ASCII (filtre skips auto, prefixes standards)
+function formatTree(summaries: any, badges = false): string {
+  const lines: string[] = [];
   const lensEntries = Object.entries(summaries);
   lensEntries.forEach(([lensKey, lensNode], lensIndex) => {
     if (
@@ -77,17 +638,18 @@ function printTree(summaries: any) {
     ) return;
 
     // Spacer entre lenses
-    if (lensIndex > 0) console.log('');
+    if (lensIndex > 0) lines.push('');
 
-    console.log(`${lensKey.toUpperCase()} Analysis:`);
+    lines.push(`${lensKey.toUpperCase()} Analysis:`);
     
     // Recursive pour chaque lens root
-    _printNode(lensNode, '', true);  // Start avec empty prefix, isLast=true pour root (└──)
+    _printNode(lines, lensNode, '', true, badges);  // Start avec empty prefix, isLast=true pour root (└──)
   });
+  return lines.join('\n');
 }
 
 // _printNode simplifié : Drop childIndex/indent (unused), rely on prefix pour spacing ; type-safe
-function _printNode(node: any, prefix: string, isLast: boolean) {
+function _printNode(lines: string[], node: any, prefix: string, isLast: boolean, badges = false) {
   if (
     node == null ||
     typeof node !== 'object' ||
@@ -102,12 +664,28 @@ function _printNode(node: any, prefix: string, isLast: boolean) {
   const branch = isLast ? '    ' : '│   ';
   
   // Print node
-  const nodeName = path.basename((node as any).path || 'root');
-  const nodeType = (node as any).type || 'unknown';
-  console.log(`${prefix}${connector}${nodeName} (${nodeType})`);
+  const symbol = (node as any).symbol;
+  const nodeName = symbol ? symbol.name : path.basename((node as any).path || 'root');
+  const nodeType = symbol ? `${symbol.kind}, L${symbol.startLine}-${symbol.endLine}` : (node as any).type || 'unknown';
+  const badgeList = badges ? formatMetadataBadges((node as any).metadata) : [];
+  const badgeText = badgeList.length ? ` [${badgeList.join(' · ')}]` : '';
+  lines.push(`${prefix}${connector}${nodeName} (${nodeType})${badgeText}`);
   
-  // Summary alignée sous le nom (4 spaces pour matcher connector length)
-  console.log(`${prefix}    Summary: ${(node as any).summary.slice(0, 150)}...`);
+  // Summary complète, alignée sous le nom (4 spaces pour matcher connector length) ; la branche continue à gauche
+  const textPrefix = `${prefix}${isLast ? '    ' : '│   '}`;
+  if (symbol) lines.push(`${textPrefix}Signature: ${symbol.signature}`);
+  if ((node as any).status === 'error') {
+    lines.push(`${textPrefix}Error: ${(node as any).error}`);
+  } else if ((node as any).status === 'skipped') {
+    lines.push(`${textPrefix}Not processed: ${(node as any).error}`);
+  } else {
+    (node as any).summary.trim().split('\n').forEach((text: string, i: number) => {
+      lines.push(`${textPrefix}${i === 0 ? 'Summary: ' : '  '}${text}`.trimEnd());
+    });
+    ((node as any).findings || []).forEach((f: any) => {
+      lines.push(`${textPrefix}! [${f.severity}] L${f.startLine}-${f.endLine} ${f.title}`);
+    });
+  }
 
   // Children (filtre skips avant recurse)
   const children = ((node as any).children || []).filter((child: any) => {
@@ -118,7 +696,7 @@ function _printNode(node: any, prefix: string, isLast: boolean) {
     children.forEach((child: any, i: number) => {
       const childIsLast = i === children.length - 1;
       const childPrefix = prefix + branch;
-      _printNode(child, childPrefix, childIsLast);
+      _printNode(lines, child, childPrefix, childIsLast, badges);
     });
   }
 }
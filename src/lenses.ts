@@ -0,0 +1,159 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { createHash } from 'crypto';
+import YAML from 'yaml';
+
+// A lens is the point of view every prompt is written from.
+// Templates use {{placeholders}}: lens, criteria, words, budget (" (<words> words)" or empty), sections,
+// chunks (file prompts) and children (folder prompts).
+export interface LensDefinition {
+  name: string;
+  description: string;
+  rankingCriteria?: string;      // what makes a chunk important for this lens
+  fileTemplate: string;          // prompt summarizing a file's top-ranked chunks
+  folderTemplate: string;        // prompt aggregating child summaries
+  wordBudget: { file?: string; folder?: string };  // e.g. "100-200"
+  sections?: string[];           // headings the summaries should be organized under
+  findings?: boolean;            // also ask for structured, line-anchored findings (see findings.ts)
+  source?: string;               // 'built-in' or the file it was loaded from
+}
+
+export type LensRegistry = Record<string, LensDefinition>;
+
+export const DEFAULT_LENSES_DIR = 'lenses';
+
+// Generic templates: any lens name without a definition still works (the LLM adapts)
+export const DEFAULT_FILE_TEMPLATE = 'Summarize these top-ranked TypeScript/JavaScript code chunks from "{{lens}}" perspective: key patterns, dependencies, potential issues/impacts. Concise{{budget}}.{{sections}}\n\nTop chunks with scores/reasons:\n{{chunks}}';
+export const DEFAULT_FOLDER_TEMPLATE = 'Summarize these child code summaries from "{{lens}}" perspective: overall structure, key interactions/dependencies, high-level insights. Concise{{budget}}.{{sections}}\n\nChild summaries:\n{{children}}';
+
+export const BUILTIN_LENSES: LensDefinition[] = [
+  {
+    name: 'architecture',
+    description: 'Structure, layering, module boundaries and dependencies',
+    rankingCriteria: 'entry points, module wiring, public APIs, layering and external dependencies',
+    fileTemplate: DEFAULT_FILE_TEMPLATE,
+    folderTemplate: DEFAULT_FOLDER_TEMPLATE,
+    wordBudget: { file: '100-200', folder: '150-250' },
+    sections: ['Structure', 'Dependencies', 'Insights'],
+  },
+  {
+    name: 'security',
+    description: 'Vulnerabilities, authentication/authorization, secrets and input handling',
+    rankingCriteria: 'authentication, authorization, input validation, secrets handling, crypto, injection and deserialization sinks',
+    fileTemplate: 'Review these top-ranked code chunks from "{{lens}}" perspective: vulnerabilities, auth/authz flaws, unsafe input handling, secrets exposure; rate each issue (critical/high/medium/low). Concise{{budget}}.{{sections}}\n\nTop chunks with scores/reasons:\n{{chunks}}',
+    folderTemplate: 'Summarize these child security reviews from "{{lens}}" perspective: attack surface, trust boundaries, most severe issues first. Concise{{budget}}.{{sections}}\n\nChild summaries:\n{{children}}',
+    wordBudget: { file: '100-200', folder: '150-250' },
+    sections: ['Attack surface', 'Issues', 'Recommendations'],
+    findings: true,
+  },
+  {
+    name: 'data_flow',
+    description: 'How data enters, is transformed, stored and leaves the system',
+    rankingCriteria: 'I/O boundaries, request handlers, persistence, transformations, queues and caches',
+    fileTemplate: 'Summarize these top-ranked code chunks from "{{lens}}" perspective: inputs, transformations, storage, outputs and scalability concerns. Concise{{budget}}.{{sections}}\n\nTop chunks with scores/reasons:\n{{chunks}}',
+    folderTemplate: 'Summarize these child summaries from "{{lens}}" perspective: end-to-end flows between modules, shared state, bottlenecks. Concise{{budget}}.{{sections}}\n\nChild summaries:\n{{children}}',
+    wordBudget: { file: '100-200', folder: '150-250' },
+  },
+].map(lens => ({ ...lens, source: 'built-in' }));
+
+export function genericLens(name: string): LensDefinition {
+  return {
+    name,
+    description: 'Custom lens (generic prompts)',
+    fileTemplate: DEFAULT_FILE_TEMPLATE,
+    folderTemplate: DEFAULT_FOLDER_TEMPLATE,
+    wordBudget: { file: '100-200' },
+    source: 'generic',
+  };
+}
+
+function validateLens(raw: any, file: string): LensDefinition {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${file}: a lens definition must be an object`);
+  }
+  const name = typeof raw.name === 'string' && raw.name ? raw.name : path.basename(file, path.extname(file));
+  const optionalStrings = ['description', 'rankingCriteria', 'fileTemplate', 'folderTemplate'];
+  for (const field of optionalStrings) {
+    if (raw[field] !== undefined && typeof raw[field] !== 'string') {
+      throw new Error(`${file}: "${field}" must be a string`);
+    }
+  }
+  if (raw.sections !== undefined && (!Array.isArray(raw.sections) || !raw.sections.every((s: any) => typeof s === 'string'))) {
+    throw new Error(`${file}: "sections" must be an array of strings`);
+  }
+  if (raw.findings !== undefined && typeof raw.findings !== 'boolean') {
+    throw new Error(`${file}: "findings" must be true or false`);
+  }
+  const budget = raw.wordBudget ?? {};
+  if (typeof budget !== 'object' || Object.values(budget).some(v => typeof v !== 'string' && typeof v !== 'number')) {
+    throw new Error(`${file}: "wordBudget" must look like { "file": "100-200", "folder": "150-250" }`);
+  }
+  const base = genericLens(name);
+  return {
+    ...base,
+    description: raw.description ?? `Project lens (${path.basename(file)})`,
+    rankingCriteria: raw.rankingCriteria,
+    fileTemplate: raw.fileTemplate ?? base.fileTemplate,
+    folderTemplate: raw.folderTemplate ?? base.folderTemplate,
+    wordBudget: {
+      file: budget.file !== undefined ? String(budget.file) : base.wordBudget.file,
+      folder: budget.folder !== undefined ? String(budget.folder) : undefined,
+    },
+    sections: raw.sections,
+    findings: raw.findings,
+    source: file,
+  };
+}
+
+// Load every *.json / *.yaml / *.yml lens file of a directory (missing directory = no lenses)
+export async function loadLensFiles(dir: string): Promise<LensDefinition[]> {
+  if (!(await fs.pathExists(dir))) return [];
+  const files = (await fs.readdir(dir)).filter(f => /\.(json|ya?ml)$/i.test(f)).sort();
+  const lenses: LensDefinition[] = [];
+  for (const file of files) {
+    const filePath = path.join(dir, file);
+    const text = await fs.readFile(filePath, 'utf8');
+    let raw: any;
+    try {
+      raw = /\.json$/i.test(file) ? JSON.parse(text) : YAML.parse(text);
+    } catch (error: any) {
+      throw new Error(`${filePath}: ${error.message}`);
+    }
+    lenses.push(validateLens(raw, filePath));
+  }
+  return lenses;
+}
+
+// Built-in lenses, overridden/extended by the project's lens directory
+export async function createLensRegistry(dir = DEFAULT_LENSES_DIR): Promise<LensRegistry> {
+  const registry: LensRegistry = {};
+  for (const lens of BUILTIN_LENSES) registry[lens.name] = lens;
+  for (const lens of await loadLensFiles(dir)) registry[lens.name] = lens;
+  return registry;
+}
+
+export function getLens(name: string, registry?: LensRegistry): LensDefinition {
+  return registry?.[name] ?? BUILTIN_LENSES.find(l => l.name === name) ?? genericLens(name);
+}
+
+export function renderTemplate(template: string, vars: Record<string, string | undefined>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (match, key: string) => (key in vars ? vars[key] ?? '' : match));
+}
+
+// Shared placeholders for both templates
+export function lensVars(lens: LensDefinition, scope: 'file' | 'folder'): Record<string, string> {
+  const words = lens.wordBudget[scope] ?? '';
+  return {
+    lens: lens.name,
+    criteria: lens.rankingCriteria ?? '',
+    words,
+    budget: words ? ` (${words} words)` : '',
+    sections: lens.sections?.length ? ` Organize the answer under these headings: ${lens.sections.join(', ')}.` : '',
+  };
+}
+
+// Changes whenever the definition changes, so cached summaries of an edited lens are not reused
+export function lensFingerprint(lens: LensDefinition): string {
+  const { source: _source, ...definition } = lens;
+  return `${lens.name}@${createHash('sha256').update(JSON.stringify(definition)).digest('hex').slice(0, 12)}`;
+}
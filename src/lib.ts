@@ -0,0 +1,16 @@
+// Public API of the package (`import { analyze } from 'rss-prss'`); the CLI lives in index.ts.
+
+export { analyze, PRRS_VERSION, type AnalyzeOptions, type AnalysisResult } from './analyze.js';
+export { prrs, type PRRSOptions, type PRRSSummaries, type SummaryNode, type PRRSHooks, type PromptInfo, type PromptKind } from './prrs.js';
+export { RESULT_VERSION, resultSchema, outputSchema, summariesSchema, summariesOf } from './schema.js';
+export { createProgressRenderer, type ProgressEvent, type ProgressListener } from './progress.js';
+export { registerModel, loadModelDefinitions, modelMap, type ModelDefinition } from './models.js';
+export { registerChunker, type Chunker } from './chunkers.js';
+export { createLensRegistry, type LensDefinition } from './lenses.js';
+export { watchRepo, type WatchOptions, type RepoWatcher } from './watch.js';
+export { reviewDiff, formatReviewMarkdown, toGitHubReview, type ReviewOptions, type ReviewResult, type ReviewComment, type FileReview } from './review.js';
+export { compareSummaries, formatComparison, type CompareOptions, type ComparisonReport, type NodeChange } from './compare.js';
+export type { RepoState } from './incremental.js';
+export type { Finding, Severity } from './findings.js';
+export type { UsageReport, TokenUsage, Budget, ModelPricing } from './usage.js';
+export type { Metadata } from './metadata.js';
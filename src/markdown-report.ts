@@ -0,0 +1,108 @@
+import path from 'path';
+import { formatMetadataBadges } from './metadata.js';
+import type { PRRSSummaries, SummaryNode } from './prrs.js';
+
+export interface MarkdownReportOptions {
+  title?: string;
+  root?: string;        // paths are shown relative to it (default: cwd)
+  badges?: boolean;     // metadata line under each heading (default: true)
+}
+
+const isSkipped = (node: SummaryNode) => node.summary.startsWith('Skipped (non-source file)');
+
+// GitHub-style slug, prefixed by the lens so the same path in two lenses gets two anchors
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9_\-\s./]/g, '').replace(/[\s./]+/g, '-').replace(/^-+|-+$/g, '') || 'root';
+}
+
+// Summaries are LLM markdown: their own headings would break the report outline, demote them to bold
+function demoteHeadings(text: string): string {
+  return text.trim().replace(/^#{1,6}\s+(.+?)\s*#*$/gm, '**$1**');
+}
+
+const escapeInline = (text: string) => text.replace(/([\\`*_[\]<>])/g, '\\$1');
+
+// Headings follow the folder hierarchy: lens = h2, its root = h3, ... deeper levels fall back to bold
+function heading(level: number, text: string): string {
+  return level <= 6 ? `${'#'.repeat(level)} ${text}` : `**${text}**`;
+}
+
+export function renderMarkdownReport(summaries: PRRSSummaries, options: MarkdownReportOptions = {}): string {
+  const root = path.resolve(options.root ?? '.');
+  const badges = options.badges ?? true;
+  const lenses = Object.entries(summaries).filter(([, node]) => node && typeof node.summary === 'string');
+  const used = new Set<string>();
+
+  const label = (node: SummaryNode) => {
+    if (!node.path) return node.summary;
+    const rel = path.relative(root, path.resolve(node.path));
+    return rel && !rel.startsWith('..') ? rel : path.basename(node.path) || node.path;
+  };
+  const anchorFor = (lens: string, node: SummaryNode) => {
+    const base = `${slugify(lens)}-${slugify(node.path ? label(node) : 'root')}`;
+    let anchor = base;
+    for (let i = 2; used.has(anchor); i++) anchor = `${base}-${i}`;
+    used.add(anchor);
+    return anchor;
+  };
+
+  // Anchors are assigned once and shared by the table of contents and the body
+  const anchors = new Map<SummaryNode, string>();
+  const visible = (node: SummaryNode) => node.children.filter(child => child && !isSkipped(child));
+  const assign = (lens: string, node: SummaryNode) => {
+    anchors.set(node, anchorFor(lens, node));
+    visible(node).forEach(child => assign(lens, child));
+  };
+  lenses.forEach(([lens, node]) => {
+    used.add(`lens-${slugify(lens)}`);
+    assign(lens, node);
+  });
+
+  const out: string[] = [`# ${options.title ?? 'PRRS Report'}`, ''];
+  out.push(`_Generated ${new Date().toISOString()} · lenses: ${lenses.map(([lens]) => lens).join(', ')}_`, '');
+
+  out.push('## Contents', '');
+  const tocEntry = (node: SummaryNode, indent: number) => {
+    const name = node.type === 'folder' ? `${label(node)}/` : label(node);
+    const flag = node.status === 'error' ? ' ⚠️' : '';
+    out.push(`${'  '.repeat(indent)}- [${escapeInline(name)}](#${anchors.get(node)})${flag}`);
+    visible(node).forEach(child => tocEntry(child, indent + 1));
+  };
+  lenses.forEach(([lens, node]) => {
+    out.push(`- [${escapeInline(lens)}](#lens-${slugify(lens)})`);
+    tocEntry(node, 1);
+  });
+  out.push('');
+
+  const section = (node: SummaryNode, level: number) => {
+    const name = node.type === 'folder' ? `${label(node)}/` : label(node);
+    out.push(`<a id="${anchors.get(node)}"></a>`, '');
+    out.push(heading(level, `\`${name.replace(/`/g, "'")}\``), '');
+    const meta = badges ? formatMetadataBadges(node.metadata) : [];
+    if (node.symbol) meta.unshift(`\`${node.symbol.signature.replace(/`/g, "'")}\``, `L${node.symbol.startLine}-${node.symbol.endLine}`);
+    if (meta.length) out.push(`_${meta.join(' · ')}_`, '');
+    if (node.status === 'error') {
+      out.push(`> ⚠️ **Error:** ${escapeInline(node.error ?? 'unknown error')}`, '');
+    } else if (node.status === 'skipped') {
+      out.push(`> ⏸️ **Not processed:** ${escapeInline(node.error ?? 'skipped')}`, '');
+    } else if (node.summary) {
+      out.push(demoteHeadings(node.summary), '');
+    }
+    if (node.findings?.length) {
+      out.push('**Findings**', '');
+      node.findings.forEach(f => {
+        const fix = f.fix ? ` _Fix:_ ${escapeInline(f.fix)}` : '';
+        out.push(`- **${f.severity}** \`${f.id}\` L${f.startLine}-${f.endLine}: ${escapeInline(f.title)}${f.rationale ? ` — ${escapeInline(f.rationale)}` : ''}${fix}`);
+      });
+      out.push('');
+    }
+    visible(node).forEach(child => section(child, level + 1));
+  };
+  lenses.forEach(([lens, node]) => {
+    out.push(`<a id="lens-${slugify(lens)}"></a>`, '');
+    out.push(`## Lens: ${lens}`, '');
+    section(node, 3);
+  });
+
+  return out.join('\n').replace(/\n{3,}/g, '\n\n').trimEnd() + '\n';
+}
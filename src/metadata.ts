@@ -3,27 +3,35 @@ import fs from 'fs-extra';
 import { parse } from '@typescript-eslint/parser';
 import type { TSESTree } from '@typescript-eslint/types';
 
+// Déclaration de premier niveau d'un fichier
+export interface Declaration {
+  name: string;
+  type: 'function' | 'class' | 'interface' | 'type' | 'const';
+  signature: string; // "function authenticate(req, res): Promise<User>"
+  location: { line: number; column: number; endLine?: number };  // endLine: last line of the declaration
+}
+
 export interface EnhancedSummaryNode {
   summary: string;
   metadata: {
     // Signatures extraites (via AST parsing)
-    exports?: Array<{
-      name: string;
-      type: 'function' | 'class' | 'interface' | 'type' | 'const';
-      signature: string; // "function authenticate(req, res): Promise<User>"
-      location: { line: number; column: number };
-    }>;
-    imports?: Array<{ from: string; names: string[] }>;
+    exports?: Declaration[];
+    declarations?: Declaration[];  // top-level declarations that are not exported
+    imports?: Array<{ from: string; names: string[]; typeOnly?: boolean }>;
     dependencies?: string[]; // Packages externes
     complexity?: number; // Cyclomatic complexity
     linesOfCode?: number;
+    // Roll-up (folders uniquement)
+    fileCount?: number;
+    maxComplexity?: number;
+    avgComplexity?: number;
   };
   children: EnhancedSummaryNode[];
   path: string;
   type: 'file' | 'folder';
 }
 
-type Metadata = EnhancedSummaryNode['metadata'];
+export type Metadata = EnhancedSummaryNode['metadata'];
 
 function generateFunctionSignature(node: TSESTree.FunctionDeclaration): string {
   const name = node.id?.name || 'anonymous';
@@ -172,8 +180,8 @@ function formatType(typeNode: TSESTree.TypeNode): string {
   }
 }
 
-function extractImports(ast: TSESTree.Program): Array<{ from: string; names: string[] }> {
-  const imports: Array<{ from: string; names: string[] }> = [];
+function extractImports(ast: TSESTree.Program): NonNullable<Metadata['imports']> {
+  const imports: NonNullable<Metadata['imports']> = [];
   
   ast.body.forEach(node => {
     if (node.type === 'ImportDeclaration') {
@@ -195,7 +203,17 @@ function extractImports(ast: TSESTree.Program): Array<{ from: string; names: str
         }
       });
       
-      imports.push({ from, names });
+      // import type { … } : effacé à la compilation (pas de dépendance runtime)
+      imports.push(node.importKind === 'type' ? { from, names, typeOnly: true } : { from, names });
+    }
+
+    // Ré-exports : export * from './x' / export { a } from './x' (dépendances aussi)
+    if ((node.type === 'ExportAllDeclaration' || node.type === 'ExportNamedDeclaration') && node.source) {
+      const names = node.type === 'ExportAllDeclaration'
+        ? ['*']
+        : node.specifiers.map(spec => (spec.local.type === 'Identifier' ? spec.local.name : '[complex]'));
+      const from = node.source.value as string;
+      imports.push(node.exportKind === 'type' ? { from, names, typeOnly: true } : { from, names });
     }
   });
   
@@ -265,48 +283,57 @@ function calculateComplexity(ast: TSESTree.Program): number {
   return complexity;
 }
 
-function extractExports(ast: TSESTree.Program): NonNullable<Metadata['exports']> {
+function extractDeclarations(ast: TSESTree.Program): Required<Pick<Metadata, 'exports' | 'declarations'>> {
   
-  const extractedExports: NonNullable<Metadata['exports']> = [];
+  const extractedExports: Declaration[] = [];
+  const declarations: Declaration[] = [];
   
-  ast.body.forEach(node => {
+  ast.body.forEach(statement => {
+    // export function/class/const … : on analyse la déclaration elle-même
+    const node = statement.type === 'ExportNamedDeclaration' && statement.declaration
+      ? statement.declaration
+      : statement;
+    const target = statement.type === 'ExportNamedDeclaration' ? extractedExports : declarations;
+    // Declarations span the whole statement (decorators, `export` keyword included)
+    const at = (loc: TSESTree.SourceLocation) => ({ line: loc.start.line, column: loc.start.column, endLine: statement.loc!.end.line });
+
     // ✅ FunctionDeclaration - OK mais vérifier null
     if (node.type === 'FunctionDeclaration' && node.id) {
-      extractedExports.push({
+      target.push({
         name: node.id.name,
         type: 'function',
         signature: generateFunctionSignature(node),
-        location: { line: node.loc!.start.line, column: node.loc!.start.column }
+        location: at(node.loc!)
       });
     }
     
     // ✅ ClassDeclaration - OK mais vérifier null
     if (node.type === 'ClassDeclaration' && node.id) {
-      extractedExports.push({
+      target.push({
         name: node.id.name,
         type: 'class',
         signature: generateClassSignature(node),
-        location: { line: node.loc!.start.line, column: node.loc!.start.column }
+        location: at(node.loc!)
       });
     }
     
     // ✅ TSInterfaceDeclaration - OK
     if (node.type === 'TSInterfaceDeclaration') {
-      extractedExports.push({
+      target.push({
         name: node.id.name,
         type: 'interface',
         signature: generateInterfaceSignature(node),
-        location: { line: node.loc!.start.line, column: node.loc!.start.column }
+        location: at(node.loc!)
       });
     }
     
     // ✅ TSTypeAliasDeclaration - OK
     if (node.type === 'TSTypeAliasDeclaration') {
-      extractedExports.push({
+      target.push({
         name: node.id.name,
         type: 'type',
         signature: generateTypeAliasSignature(node),
-        location: { line: node.loc!.start.line, column: node.loc!.start.column }
+        location: at(node.loc!)
       });
     }
     
@@ -315,17 +342,17 @@ function extractExports(ast: TSESTree.Program): NonNullable<Metadata['exports']>
       node.declarations.forEach(decl => {
         // Gérer différents patterns : const x = ..., const { a, b } = ..., const [a, b] = ...
         if (decl.id.type === 'Identifier') {
-          extractedExports.push({
+          target.push({
             name: decl.id.name,
             type: 'const',
             signature: generateVariableSignature(decl),
-            location: { line: decl.loc!.start.line, column: decl.loc!.start.column }
+            location: at(decl.loc!)
           });
         } else if (decl.id.type === 'ObjectPattern') {
           // const { a, b } = obj
           decl.id.properties.forEach(prop => {
             if (prop.type === 'Property' && prop.key.type === 'Identifier') {
-              extractedExports.push({
+              target.push({
                 name: prop.key.name,
                 type: 'const',
                 signature: `const ${prop.key.name} (destructured)`,
@@ -340,14 +367,9 @@ function extractExports(ast: TSESTree.Program): NonNullable<Metadata['exports']>
     
     // 🆕 Ajouter ExportNamedDeclaration pour capturer export { x, y }
     if (node.type === 'ExportNamedDeclaration') {
-      if (node.declaration) {
-        // export function foo() {} → Déjà capturé par les cas ci-dessus
-        // Mais on doit traiter récursivement
-        // (Astuce : parser les exports récursivement ou marquer comme exported)
-      }
       node.specifiers?.forEach(spec => {
         if (spec.type === 'ExportSpecifier' && spec.exported.type === 'Identifier' && spec.local.type === 'Identifier') {
-          extractedExports.push({
+          target.push({
             name: spec.exported.name,
             type: 'const', // Type générique
             signature: `export { ${spec.local.name} as ${spec.exported.name} }`,
@@ -358,16 +380,16 @@ function extractExports(ast: TSESTree.Program): NonNullable<Metadata['exports']>
     }
   });
   
-  return extractedExports;
+  return { exports: extractedExports, declarations };
 }
 
-export async function extractMetadata(filePath: string): Promise<Metadata> {
+export async function extractMetadata(filePath: string, fileContent?: string, warn: (message: string) => void = console.warn): Promise<Metadata> {
   try {
-    const content = await fs.readFile(filePath, 'utf8');
+    const content = fileContent ?? await fs.readFile(filePath, 'utf8');
     
     // Vérifier extension
     const ext = filePath.split('.').pop();
-    if (!['ts', 'tsx', 'js', 'jsx'].includes(ext || '')) {
+    if (!['ts', 'tsx', 'mts', 'cts', 'js', 'jsx', 'mjs', 'cjs'].includes(ext || '')) {
       return { linesOfCode: content.split('\n').length };
     }
     
@@ -381,7 +403,7 @@ export async function extractMetadata(filePath: string): Promise<Metadata> {
     });
     
     return {
-      exports: extractExports(ast),
+      ...extractDeclarations(ast),
       imports: extractImports(ast),
       dependencies: extractDependencies(ast),
       complexity: calculateComplexity(ast),
@@ -389,7 +411,7 @@ export async function extractMetadata(filePath: string): Promise<Metadata> {
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    console.warn(`Failed to parse ${filePath}:`, errorMessage);
+    warn(`Failed to parse ${filePath}: ${errorMessage}`);
     // Fallback gracieux
     const content = await fs.readFile(filePath, 'utf8').catch(() => '');
     return { 
@@ -399,4 +421,47 @@ export async function extractMetadata(filePath: string): Promise<Metadata> {
       dependencies: []
     };
   }
-}
\ No newline at end of file
+}
+
+// Agrège les métadonnées des fichiers d'un sous-arbre : LOC sommées, union des dépendances,
+// complexité max/moyenne sur les fichiers analysés.
+export function rollupMetadata(files: Metadata[]): Metadata {
+  const dependencies = new Set<string>();
+  let linesOfCode = 0;
+  const complexities: number[] = [];
+
+  files.forEach(meta => {
+    linesOfCode += meta.linesOfCode ?? 0;
+    meta.dependencies?.forEach(dep => dependencies.add(dep));
+    if (typeof meta.complexity === 'number') complexities.push(meta.complexity);
+  });
+
+  return {
+    linesOfCode,
+    dependencies: Array.from(dependencies).sort(),
+    fileCount: files.length,
+    maxComplexity: complexities.length ? Math.max(...complexities) : undefined,
+    avgComplexity: complexities.length
+      ? Math.round((complexities.reduce((a, b) => a + b, 0) / complexities.length) * 10) / 10
+      : undefined,
+  };
+}
+
+// Badges compacts pour les rendus (tree, markdown, html) :
+// fichiers "120 LOC · cx 14 · 5 exports · 3 deps", dossiers "1.2k LOC · cx max 30 avg 8.5 · 12 deps"
+export function formatMetadataBadges(metadata?: Metadata): string[] {
+  if (!metadata) return [];
+  const badges: string[] = [];
+  if (typeof metadata.linesOfCode === 'number') {
+    const loc = metadata.linesOfCode >= 1000 ? `${(metadata.linesOfCode / 1000).toFixed(1)}k` : `${metadata.linesOfCode}`;
+    badges.push(`${loc} LOC`);
+  }
+  if (typeof metadata.maxComplexity === 'number') {
+    badges.push(`cx max ${metadata.maxComplexity} avg ${metadata.avgComplexity}`);
+  } else if (typeof metadata.complexity === 'number') {
+    badges.push(`cx ${metadata.complexity}`);
+  }
+  if (metadata.exports?.length) badges.push(`${metadata.exports.length} exports`);
+  if (metadata.dependencies?.length) badges.push(`${metadata.dependencies.length} deps`);
+  return badges;
+}
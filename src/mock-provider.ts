@@ -0,0 +1,157 @@
+import { createHash } from 'crypto';
+import type { LanguageModelV2 } from '@openrouter/ai-sdk-provider';
+
+type CallOptions = Parameters<LanguageModelV2['doGenerate']>[0];
+
+// Stable short hash so the same prompt always yields the same answer
+function digest(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+// Rough token estimate (~4 chars/token), good enough for usage reporting
+function approxTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function promptToText(prompt: CallOptions['prompt']): string {
+  return prompt.map(message => {
+    if (typeof message.content === 'string') return message.content;
+    return message.content
+      .map(part => (part.type === 'text' ? part.text : ''))
+      .join('');
+  }).join('\n');
+}
+
+function extractLens(prompt: string): string {
+  const match = prompt.match(/from "([^"]+)" perspective/);
+  return match ? match[1] : 'general';
+}
+
+// Ranking prompt: answer with a valid JSON array covering every index once
+function mockRanking(prompt: string, lastIndex: number): string {
+  const lens = extractLens(prompt);
+  const ranking = [];
+  for (let i = 0; i <= lastIndex; i++) {
+    const score = 1 + (parseInt(digest(`${lens}:${i}:${prompt}`).slice(0, 8), 16) % 10);
+    ranking.push({ index: i, score, reason: `mock ${lens} relevance` });
+  }
+  return JSON.stringify(ranking);
+}
+
+// Combined ranking (single-pass runs): one ranking per listed perspective
+function mockMultiRanking(prompt: string, lastIndex: number): string {
+  const lenses = [...prompt.matchAll(/^- "([^"]+)": /gm)].map(m => m[1]);
+  return JSON.stringify(Object.fromEntries(lenses.map(lens => [lens, JSON.parse(mockRanking(`from "${lens}" perspective\n${prompt}`, lastIndex))])));
+}
+
+// Any other prompt: a short summary that is stable for a given prompt
+function mockSummary(prompt: string): string {
+  const lens = extractLens(prompt);
+  const kind = prompt.startsWith('Summarize these child') ? 'folder' : prompt.startsWith('Summarize the exported') ? 'symbol' : 'file';
+  const lines = prompt.split('\n').length;
+  return `[mock] ${lens} ${kind} summary (${lines} prompt lines, ref ${digest(prompt).slice(0, 8)}).`;
+}
+
+// Findings prompt: flag lines of the numbered chunks that mention obvious sinks/secrets
+const MOCK_RULES: Array<{ pattern: RegExp; id: string; severity: string; title: string }> = [
+  { pattern: /\beval\s*\(|new Function\s*\(/, id: 'dynamic-code-execution', severity: 'high', title: 'Dynamic code execution' },
+  { pattern: /\bexec(File|Sync)?\s*\(/, id: 'command-execution', severity: 'medium', title: 'External command execution' },
+  { pattern: /(password|secret|api_?key)\s*[:=]\s*['"`][^'"`]+['"`]/i, id: 'hardcoded-secret', severity: 'critical', title: 'Hard-coded secret' },
+  { pattern: /process\.env\.[A-Z_]*(KEY|TOKEN)/, id: 'credential-from-env', severity: 'info', title: 'Credential read from environment' },
+];
+
+function mockFindings(prompt: string): string {
+  const findings: object[] = [];
+  const parts = prompt.split(/^Chunk (\d+) \(.*\):$/m);
+  for (let i = 1; i + 1 < parts.length && findings.length < 5; i += 2) {
+    const lines = parts[i + 1].replace(/^\n/, '').split('\n');
+    lines.forEach((line, n) => {
+      const rule = MOCK_RULES.find(r => r.pattern.test(line));
+      if (!rule || findings.length >= 5) return;
+      findings.push({
+        id: rule.id, severity: rule.severity, title: rule.title, chunk: Number(parts[i]), startLine: n + 1, endLine: n + 1,
+        rationale: `[mock] matched ${rule.pattern}`, fix: '[mock] review this line',
+      });
+    });
+  }
+  return `${mockSummary(prompt)}\n\nFINDINGS:\n${JSON.stringify(findings)}`;
+}
+
+// prrs ask, child selection: children sharing the most words with the question
+function mockSelection(prompt: string): string {
+  const question = prompt.match(/^Question: "(.*)"$/m)?.[1] ?? '';
+  const words = new Set(question.toLowerCase().match(/[a-z0-9]{3,}/g) ?? []);
+  const children = [...prompt.matchAll(/^(\d+)\) (.*)$/gm)].map(m => ({
+    index: Number(m[1]),
+    score: (m[2].toLowerCase().match(/[a-z0-9]{3,}/g) ?? []).filter(w => words.has(w)).length,
+  }));
+  const picked = children.filter(c => c.score > 0).sort((a, b) => b.score - a.score || a.index - b.index).slice(0, 2);
+  return JSON.stringify((picked.length ? picked : children.slice(0, 1)).map(c => c.index));
+}
+
+// prrs ask, final answer: cites the first sources it was given
+function mockAnswer(prompt: string): string {
+  const refs = [...prompt.matchAll(/^\[(\d+)\] (.*)$/gm)].slice(0, 3);
+  return `[mock] answer from ${refs.length} source(s): ${refs.map(m => `${m[2]} [${m[1]}]`).join(', ')} (ref ${digest(prompt).slice(0, 8)}).`;
+}
+
+// prrs review, per file and lens: the MOCK_RULES on added lines of the numbered diff
+function mockReview(prompt: string): string {
+  const comments = [...prompt.matchAll(/^\+\s*(\d+) \| (.*)$/gm)].flatMap(m => {
+    const rule = MOCK_RULES.find(r => r.pattern.test(m[2]));
+    return rule ? [{ line: Number(m[1]), severity: rule.severity, title: rule.title, body: `[mock] matched ${rule.pattern}`, suggestion: '[mock] review this line' }] : [];
+  }).slice(0, 5);
+  const added = (prompt.match(/^\+\s*\d+ \| /gm) ?? []).length;
+  return `[mock] ${extractLens(prompt)} review: ${added} added line(s) (ref ${digest(prompt).slice(0, 8)}).\n\nCOMMENTS:\n${JSON.stringify(comments)}`;
+}
+
+// prrs review, PR summary
+function mockReviewSummary(prompt: string): string {
+  const files = (prompt.match(/^- .* \((added|modified|deleted|renamed)\b/gm) ?? []).length;
+  const comments = (prompt.match(/^- \[(critical|high|medium|low|info)\]/gm) ?? []).length;
+  return `[mock] PR summary: ${files} file(s), ${comments} comment(s) (ref ${digest(prompt).slice(0, 8)}).`;
+}
+
+// prrs compare --llm: sizes of the two summaries
+function mockShift(prompt: string): string {
+  const [before = '', after = ''] = prompt.split(/^Before:$|^After:$/m).slice(1);
+  return `[mock] ${extractLens(prompt)} shift: ${before.trim().split(/\s+/).length} → ${after.trim().split(/\s+/).length} words (ref ${digest(prompt).slice(0, 8)}).`;
+}
+
+export function mockRespond(prompt: string): string {
+  if (prompt.startsWith('Review this change to ')) return mockReview(prompt);
+  if (prompt.startsWith('Write the pull request review summary')) return mockReviewSummary(prompt);
+  if (prompt.startsWith('Describe how the ')) return mockShift(prompt);
+  if (prompt.includes('Pick the children most likely to contain the answer')) return mockSelection(prompt);
+  if (prompt.startsWith('Answer the question about this codebase')) return mockAnswer(prompt);
+  const multiRanking = prompt.match(/^Rank the same chunks by index \(0-(\d+)\) from each/);
+  if (multiRanking) return mockMultiRanking(prompt, Number(multiRanking[1]));
+  const ranking = prompt.match(/Rank these chunks by index \(0-(\d+)\)/);
+  if (ranking) return mockRanking(prompt, Number(ranking[1]));
+  if (prompt.includes('add a line "FINDINGS:"')) return mockFindings(prompt);
+  return mockSummary(prompt);
+}
+
+export function createMockModel(modelId = 'mock-deterministic'): LanguageModelV2 {
+  return {
+    specificationVersion: 'v2',
+    provider: 'mock',
+    modelId,
+    supportedUrls: {},
+    async doGenerate(options: CallOptions) {
+      const prompt = promptToText(options.prompt);
+      const text = mockRespond(prompt);
+      const inputTokens = approxTokens(prompt);
+      const outputTokens = approxTokens(text);
+      return {
+        content: [{ type: 'text', text }],
+        finishReason: 'stop',
+        usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+        warnings: [],
+      };
+    },
+    async doStream() {
+      throw new Error('The mock provider does not support streaming');
+    },
+  };
+}
@@ -1,5 +1,7 @@
-import { createOpenRouter } from '@openrouter/ai-sdk-provider';
+import fs from 'fs-extra';
 import type { LanguageModelV2 } from '@openrouter/ai-sdk-provider';
+import { getProvider, listProviders } from './providers.js';
+import { parsePricing, type ModelPricing, type PriceTable } from './usage.js';
 
 export interface Endpoint {
   name: string;
@@ -31,105 +33,177 @@ export interface OpenRouterResponse {
   [key: string]: any;
 }
 
-// Check API key (injected via secrets.sh)
-if (!process.env.OPENROUTER_API_KEY) {
-  throw new Error('OPENROUTER_API_KEY not defined. Use secrets.sh or export it manually.');
+// Declarative model definition: which provider serves it and how it is configured.
+// Providers turn a definition into a LanguageModelV2 lazily (see ./providers.ts), so
+// importing this module never requires an API key or network access.
+export interface ModelDefinition {
+  provider: string;            // Key in the provider registry ('openrouter', 'openai-compatible', 'mock')
+  modelId: string;             // Provider-side model id (e.g. 'x-ai/grok-4-fast')
+  baseURL?: string;            // Override the provider endpoint
+  apiKeyEnv?: string;          // Env var holding the API key (provider default if omitted)
+  contextWindow?: number;      // Context size in tokens, when known statically
+  maxTokens?: number;          // Completion token cap
+  extraBody?: Record<string, any>; // Provider-specific request body (OpenRouter routing, reasoning…)
+  pricing?: ModelPricing;      // USD per token, for cost accounting (see ./usage.ts)
 }
 
+// OpenRouter routing shared by the Grok definitions
+const xaiRouting = {
+  order: ['xai'],
+  allow_fallbacks: false,
+  data_collection: 'deny',
+  sort: 'price'
+};
 
+const gptOssRouting = {
+  order: ['novita/bf16', 'gmicloud/bf16'],
+  allow_fallbacks: false,
+  data_collection: 'deny',
+  sort: 'price'
+};
 
-// Init OpenRouter
-const openrouter = createOpenRouter({
-  apiKey: process.env.OPENROUTER_API_KEY,
-  baseURL: 'https://openrouter.ai/api/v1',
-});
-
-// Grok model with reasoning (for deep analysis, e.g., summaries)
-export const g4f_reasoning: LanguageModelV2 = openrouter('x-ai/grok-4-fast', {
-  extraBody: {
-    temperature: 0.0,
-    max_tokens: 500,
-    stream: false,
-    reasoning: { enabled: true },  // Toggle for chain-of-thought
-    provider: {
-      order: ['xai'],
-      allow_fallbacks: false,
-      data_collection: 'deny',
-      sort: 'price'
+// Map for CLI (e.g., --model 'g4f-no-reasoning' via commander)
+export const modelMap: Record<string, ModelDefinition> = {
+  // Grok model with reasoning (for deep analysis, e.g., summaries)
+  'g4f-reasoning': {
+    provider: 'openrouter',
+    modelId: 'x-ai/grok-4-fast',
+    contextWindow: 8192,  // best-effort budget (kept small on purpose)
+    maxTokens: 500,
+    extraBody: {
+      temperature: 0.0,
+      max_tokens: 500,
+      stream: false,
+      reasoning: { enabled: true },  // Toggle for chain-of-thought
+      provider: xaiRouting
     }
-  }
-});
-
-// Grok model without reasoning (for fast rankings, low-latency)
-export const g4f_no_reasoning: LanguageModelV2 = openrouter('x-ai/grok-4-fast', {
-  extraBody: {
-    temperature: 0.0,
-    max_tokens: 500,
-    stream: false,
-    reasoning: { enabled: false },
-    provider: {
-      order: ['xai'],
-      allow_fallbacks: false,
-      data_collection: 'deny',
-      sort: 'price'
+  },
+  // Grok model without reasoning (for fast rankings, low-latency)
+  'g4f-no-reasoning': {
+    provider: 'openrouter',
+    modelId: 'x-ai/grok-4-fast',
+    contextWindow: 8192,  // best-effort budget (kept small on purpose)
+    maxTokens: 500,
+    extraBody: {
+      temperature: 0.0,
+      max_tokens: 500,
+      stream: false,
+      reasoning: { enabled: false },
+      provider: xaiRouting
     }
-  }
-});
-
-export const gpt120_reasoning: LanguageModelV2 = openrouter('openai/gpt-oss-120b', {
-  extraBody: {
-    temperature: 0.0,
-    max_tokens: 500,
-    stream: false,
-    reasoning: { effort: 'high' },  // set effort level for reasoning
-    provider: {
-      order: ['novita/bf16', 'gmicloud/bf16'],
-      allow_fallbacks: false,
-      data_collection: 'deny',
-      sort: 'price'
+  },
+  'gpt120-reasoning': {
+    provider: 'openrouter',
+    modelId: 'openai/gpt-oss-120b',
+    maxTokens: 500,
+    extraBody: {
+      temperature: 0.0,
+      max_tokens: 500,
+      stream: false,
+      reasoning: { effort: 'high' },  // set effort level for reasoning
+      provider: gptOssRouting
+    }
+  },
+  'gpt120-no-reasoning': {
+    provider: 'openrouter',
+    modelId: 'openai/gpt-oss-120b',
+    maxTokens: 500,
+    extraBody: {
+      temperature: 0.0,
+      max_tokens: 500,
+      stream: false,
+      reasoning: { enabled: false },
+      provider: gptOssRouting
     }
+  },
+  // Offline deterministic model (CI, air-gapped machines, tests)
+  'mock': {
+    provider: 'mock',
+    modelId: 'mock-deterministic',
+    contextWindow: 8192,
+    maxTokens: 500,
+    pricing: { prompt: 0, completion: 0 }
+  },
+};
+
+export const defaultModelKey = 'g4f-reasoning';
+
+// Resolve a CLI model key to its definition. Accepts modelMap keys or `provider:modelId`
+// (e.g. 'mock:any', 'openai-compatible:llama3', 'openrouter:x-ai/grok-4-fast').
+export function getModelDefinition(modelKey: string): ModelDefinition {
+  if (modelKey in modelMap) return modelMap[modelKey];
+
+  const sep = modelKey.indexOf(':');
+  if (sep > 0) {
+    const provider = modelKey.slice(0, sep);
+    getProvider(provider); // validates the provider name
+    return { provider, modelId: modelKey.slice(sep + 1) };
   }
-});
-
-export const gpt120_no_reasoning: LanguageModelV2 = openrouter('openai/gpt-oss-120b', {
-  extraBody: {
-    temperature: 0.0,
-    max_tokens: 500,
-    stream: false,
-    reasoning: { enabled: false },
-    provider: {
-      order: ['novita/bf16', 'gmicloud/bf16'],
-      allow_fallbacks: false,
-      data_collection: 'deny',
-      sort: 'price'
+
+  throw new Error(`Model "${modelKey}" not found in modelMap (available: ${Object.keys(modelMap).join(', ')}; or use provider:modelId with providers: ${listProviders().map(p => p.name).join(', ')}).`);
+}
+
+// Add (or replace) a model definition under a CLI key
+export function registerModel(key: string, def: ModelDefinition): void {
+  modelMap[key] = def;
+}
+
+function validateModelDefinition(key: string, raw: any): ModelDefinition {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`Model "${key}": definition must be an object`);
+  }
+  if (typeof raw.modelId !== 'string' || !raw.modelId) {
+    throw new Error(`Model "${key}": "modelId" is required`);
+  }
+  // A baseURL without explicit provider means a local/self-hosted OpenAI-compatible server
+  const provider = typeof raw.provider === 'string' ? raw.provider : (raw.baseURL ? 'openai-compatible' : 'openrouter');
+  getProvider(provider);
+  for (const field of ['contextWindow', 'maxTokens'] as const) {
+    if (raw[field] !== undefined && (!Number.isInteger(raw[field]) || raw[field] <= 0)) {
+      throw new Error(`Model "${key}": "${field}" must be a positive integer`);
     }
   }
-});
+  if (raw.baseURL !== undefined && typeof raw.baseURL !== 'string') {
+    throw new Error(`Model "${key}": "baseURL" must be a string`);
+  }
+  const pricing = raw.pricing === undefined ? undefined : parsePricing(raw.pricing);
+  if (raw.pricing !== undefined && !pricing) {
+    throw new Error(`Model "${key}": "pricing" must look like { "prompt": 0.0000002, "completion": 0.0000005 } (USD per token)`);
+  }
+  return { ...raw, provider, ...(pricing ? { pricing } : {}) } as ModelDefinition;
+}
 
-// Map for CLI (e.g., --model 'grok-no-reasoning' via commander)
-export const modelMap = {
-  'g4f-reasoning': g4f_reasoning,
-  'g4f-no-reasoning': g4f_no_reasoning,
-  'gpt120-reasoning': gpt120_reasoning,
-  'gpt120-no-reasoning': gpt120_no_reasoning,
-} as const;
+// Load model definitions from a JSON file and register them in modelMap.
+// Format: { "<key>": { "baseURL": "http://localhost:11434/v1", "modelId": "llama3.1", "contextWindow": 32768, "maxTokens": 800 } }
+export async function loadModelDefinitions(filePath: string): Promise<string[]> {
+  const raw = await fs.readJson(filePath);
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${filePath}: expected an object mapping model keys to definitions`);
+  }
+  const keys = Object.keys(raw);
+  for (const key of keys) {
+    registerModel(key, validateModelDefinition(key, raw[key]));
+  }
+  return keys;
+}
 
-// Default for direct usage (import { defaultModel } from './models')
-export const defaultModel = g4f_reasoning;
+// Instantiate the LanguageModelV2 for a model key through its provider
+export function resolveModel(modelKey: string): LanguageModelV2 {
+  const def = getModelDefinition(modelKey);
+  return getProvider(def.provider).createModel(def);
+}
 
-// Utility: fetch the smallest provider context window for a given model key.
-// Relocated from `src/getContext.ts` so callers can import from `./models`.
-export async function getContext(modelKey: string) {
-  const model = modelMap[modelKey as keyof typeof modelMap];
-  if (!model) {
-    throw new Error(`Model "${modelKey}" not found in modelMap.`);
+// OpenRouter endpoints serving a model (context length, pricing… per provider)
+async function fetchEndpoints(modelKey: string): Promise<Endpoint[]> {
+  const def = getModelDefinition(modelKey);
+  if (def.provider !== 'openrouter') {
+    throw new Error(`Endpoint lookup only supports OpenRouter models ("${modelKey}" uses provider "${def.provider}").`);
+  }
+  if (!process.env.OPENROUTER_API_KEY) {
+    throw new Error('OPENROUTER_API_KEY not defined. Use secrets.sh or export it manually.');
   }
 
-  // The concrete model object provided by the SDK contains a `settings`
-  // property at runtime, but the SDK's TypeScript type doesn't expose it.
-  // Cast to `any` for this runtime-only inspection to satisfy the compiler.
-  const modelProvider = (model as any).settings?.extraBody?.provider;
-  const baseUrl = `https://openrouter.ai/api/v1/models/${model.modelId}/endpoints`
+  const baseUrl = `https://openrouter.ai/api/v1/models/${def.modelId}/endpoints`
 
   const response = await fetch(baseUrl, {
     method: 'GET',
@@ -156,8 +230,20 @@ export async function getContext(modelKey: string) {
   if (!endpoints) {
     throw new Error('No endpoints array found in model details response');
   }
+  return endpoints;
+}
+
+// Utility: fetch the smallest provider context window for a given model key.
+// Relocated from `src/getContext.ts` so callers can import from `./models`.
+export async function getContext(modelKey: string) {
+  const def = getModelDefinition(modelKey);
+  const endpoints = await fetchEndpoints(modelKey);
+  const modelProvider = def.extraBody?.provider;
 
   // Map the requested provider order to actual context lengths, validating presence.
+  if (!Array.isArray(modelProvider?.order)) {
+    throw new Error(`Model "${modelKey}" has no provider routing order to resolve context from`);
+  }
   const providerContextLengths: number[] = modelProvider.order.map((provider: string) => {
     const endpoint = endpoints.find((ep: Endpoint) => ep.tag === provider);
     if (!endpoint) {
@@ -173,3 +259,22 @@ export async function getContext(modelKey: string) {
 
   return smallestContextXWindow;
 }
+
+// Price per token of a model: the local price table (by key, modelId or provider:modelId) wins,
+// then its definition, then (unless offline) the OpenRouter endpoint it is routed to first. Undefined when unknown.
+export async function resolvePricing(modelKey: string, priceTable: PriceTable = {}, offline = false, warn: (message: string) => void = console.warn): Promise<ModelPricing | undefined> {
+  const def = getModelDefinition(modelKey);
+  const local = priceTable[modelKey] ?? priceTable[def.modelId] ?? priceTable[`${def.provider}:${def.modelId}`] ?? def.pricing;
+  if (local) return local;
+  if (offline || def.provider !== 'openrouter' || !process.env.OPENROUTER_API_KEY) return undefined;
+
+  try {
+    const endpoints = await fetchEndpoints(modelKey);
+    const preferred = def.extraBody?.provider?.order?.[0];
+    const endpoint = endpoints.find(ep => ep.tag === preferred) ?? endpoints[0];
+    return parsePricing(endpoint?.pricing);
+  } catch (err: any) {
+    warn(`resolvePricing: no pricing for "${modelKey}" (${err.message})`);
+    return undefined;
+  }
+}
@@ -0,0 +1,198 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { getModelDefinition, resolvePricing, defaultModelKey } from './models.js';
+import { createLensRegistry, getLens, type LensDefinition } from './lenses.js';
+import { loadPriceTable, splitCall, type ModelPricing } from './usage.js';
+import {
+  estimateMaxChunkChars, DEFAULT_CONTEXT_WINDOW, rankingPrompt, multiRankingPrompt, fileSummaryPrompt, folderSummaryPrompt, symbolSummaryPrompt,
+  TOP_CHUNKS,
+} from './prrs.js';
+import { extractMetadata } from './metadata.js';
+import { selectSymbols, symbolSource } from './symbols.js';
+import { createFileFilter, type FileFilterOptions } from './file-filter.js';
+import { splitFileIntoChunks } from './chunkers.js';
+
+// Dry run: walks the tree exactly like rrs (same skip rules, depth limit and chunking) and
+// builds the real prompts, but never calls a model. Works offline.
+
+export interface PlanEstimate {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost?: number;
+}
+
+export interface PlanReport {
+  path: string;
+  model: string;
+  maxDepth: number;
+  maxChunkChars: number;
+  contextWindow: number;  // tokens maxChunkChars is derived from
+  defaultWindow?: boolean;  // not configured for the model: the default was assumed (a run may fetch the real one)
+  files: number;          // files that will be ranked + summarized
+  folders: number;        // folders that will be aggregated
+  chunks: number;
+  symbols: number;        // symbol nodes (--symbols)
+  skippedFiles: number;   // root file rejected by the ignore rules (ignored entries are not counted)
+  emptyFiles: number;     // empty, or no chunk extracted
+  depthLimited: number;   // entries beyond --depth
+  pricing?: ModelPricing;
+  lenses: Record<string, PlanEstimate>;
+  total: PlanEstimate;
+}
+
+export interface PlanOptions extends FileFilterOptions {
+  lensesDir?: string;
+  pricesFile?: string;
+  symbols?: boolean;
+  singlePass?: boolean;   // one combined ranking per file, split between the lenses (as in the run)
+}
+
+// Same heuristic as the rest of the tool: ~4 characters per token
+const approxTokens = (text: string) => Math.ceil(text.length / 4);
+
+const TOKENS_PER_WORD = 1.35;
+const RANKING_TOKENS_PER_CHUNK = 20;   // {"index": 3, "score": 7, "reason": "..."}
+const FINDINGS_TOKENS = 200;           // FINDINGS block of findings-enabled lenses
+const DEFAULT_ANSWER_WORDS = 250;      // lenses without a word budget
+const SYMBOL_ANSWER_TOKENS = Math.ceil(80 * TOKENS_PER_WORD);
+
+// Upper end of the lens word budget ("100-200" → 200 words), capped by the model completion limit
+function answerTokens(lens: LensDefinition, scope: 'file' | 'folder', maxTokens?: number): number {
+  const budget = lens.wordBudget[scope] ?? lens.wordBudget.file;
+  const words = Math.max(...(budget?.match(/\d+/g) ?? [String(DEFAULT_ANSWER_WORDS)]).map(Number));
+  const tokens = Math.ceil(words * TOKENS_PER_WORD) + (scope === 'file' && lens.findings ? FINDINGS_TOKENS : 0);
+  return maxTokens ? Math.min(tokens, maxTokens) : tokens;
+}
+
+// What a parent folder's prompt will contain for this child
+interface PlannedChild {
+  path?: string;
+  summary: string;
+}
+
+const emptyEstimate = (): PlanEstimate => ({ calls: 0, promptTokens: 0, completionTokens: 0 });
+
+// A child summary is only known after the run: assume the 100 chars the folder prompt keeps
+const PLACEHOLDER_SUMMARY = 'x'.repeat(100);
+
+export async function planRun(folderPath: string, lensNames: string[], modelKey = defaultModelKey, maxDepth = 3, options: PlanOptions = {}): Promise<PlanReport> {
+  const def = getModelDefinition(modelKey);
+  const maxChunkChars = await estimateMaxChunkChars(modelKey, true);
+  const contextWindow = def.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+  const pricing = await resolvePricing(modelKey, options.pricesFile ? await loadPriceTable(options.pricesFile) : undefined, true);
+  const registry = await createLensRegistry(options.lensesDir);
+  const lenses = lensNames.map(name => getLens(name, registry));
+  const filter = createFileFilter(folderPath, options);
+
+  const report: PlanReport = {
+    path: folderPath, model: modelKey, maxDepth, maxChunkChars, contextWindow, ...(def.contextWindow ? {} : { defaultWindow: true }),
+    files: 0, folders: 0, chunks: 0, symbols: 0, skippedFiles: 0, emptyFiles: 0, depthLimited: 0,
+    ...(pricing ? { pricing } : {}),
+    lenses: Object.fromEntries(lenses.map(lens => [lens.name, emptyEstimate()])),
+    total: emptyEstimate(),
+  };
+
+  const addCall = (lens: LensDefinition, prompt: string, completion: number) => {
+    const estimate = report.lenses[lens.name];
+    estimate.calls++;
+    estimate.promptTokens += approxTokens(prompt);
+    estimate.completionTokens += completion;
+  };
+  // A call made for several lenses is split between them as in a run (splitCall)
+  const addSharedCall = (shared: LensDefinition[], prompt: string, completion: number) => {
+    splitCall({ inputTokens: approxTokens(prompt), outputTokens: completion }, shared.length).forEach((share, i) => {
+      const estimate = report.lenses[shared[i].name];
+      if (i === 0) estimate.calls++;
+      estimate.promptTokens += share.inputTokens;
+      estimate.completionTokens += share.outputTokens;
+    });
+  };
+
+  const walk = async (nodePath: string, depth: number): Promise<PlannedChild | undefined> => {
+    if (depth > maxDepth) {
+      report.depthLimited++;
+      return { summary: 'Depth limit reached' };
+    }
+    const stats = await fs.stat(nodePath);
+
+    if (stats.isFile()) {
+      if (!filter.accepts(nodePath, false)) {
+        report.skippedFiles++;
+        return undefined;
+      }
+      const content = await fs.readFile(nodePath, 'utf8');
+      const chunks = content.trim() ? splitFileIntoChunks(content, nodePath, 10, maxChunkChars) : [];
+      if (chunks.length === 0) {
+        report.emptyFiles++;
+        return { summary: content.trim() ? 'No chunks extracted' : 'Empty file' };
+      }
+      report.files++;
+      report.chunks += chunks.length;
+      // The ranking is unknown: the largest chunks stand in for the top-ranked ones (upper bound)
+      const top = [...chunks].sort((a, b) => b.text.length - a.text.length).slice(0, TOP_CHUNKS)
+        .map(chunk => ({ ...chunk, score: 10, reason: 'estimated ranking reason' }));
+      const symbols = options.symbols ? selectSymbols(await extractMetadata(nodePath, content)) : [];
+      report.symbols += symbols.length;
+      const symbolAnswers = symbols.map(symbol => ({ symbol, summary: PLACEHOLDER_SUMMARY.repeat(3) }));
+      const combined = options.singlePass && lenses.length > 1;
+      if (combined) addSharedCall(lenses, multiRankingPrompt(chunks, lenses), chunks.length * RANKING_TOKENS_PER_CHUNK * lenses.length);
+      for (const lens of lenses) {
+        symbols.forEach(symbol => addCall(lens, symbolSummaryPrompt(symbol, symbolSource(content, symbol, maxChunkChars), lens), SYMBOL_ANSWER_TOKENS));
+        if (!combined) addCall(lens, rankingPrompt(chunks, lens), chunks.length * RANKING_TOKENS_PER_CHUNK);
+        addCall(lens, fileSummaryPrompt(top, lens, symbolAnswers), answerTokens(lens, 'file', def.maxTokens));
+      }
+      return { path: nodePath, summary: PLACEHOLDER_SUMMARY };
+    }
+
+    const items = (await fs.readdir(nodePath)).sort();
+    const children: PlannedChild[] = [];
+    for (const item of items) {
+      const itemPath = path.join(nodePath, item);
+      if (!filter.accepts(itemPath, (await fs.stat(itemPath)).isDirectory())) continue;
+      const child = await walk(itemPath, depth + 1);
+      if (child) children.push(child);
+    }
+    if (children.length === 0) return { path: nodePath, summary: 'Empty folder (ignored items only)' };
+    report.folders++;
+    for (const lens of lenses) addCall(lens, folderSummaryPrompt(children, lens), answerTokens(lens, 'folder', def.maxTokens));
+    return { path: nodePath, summary: PLACEHOLDER_SUMMARY };
+  };
+
+  await walk(folderPath, 0);
+
+  for (const estimate of Object.values(report.lenses)) {
+    if (pricing) estimate.cost = estimate.promptTokens * pricing.prompt + estimate.completionTokens * pricing.completion;
+    report.total.calls += estimate.calls;
+    report.total.promptTokens += estimate.promptTokens;
+    report.total.completionTokens += estimate.completionTokens;
+    if (estimate.cost !== undefined) report.total.cost = (report.total.cost ?? 0) + estimate.cost;
+  }
+  return report;
+}
+
+export function formatPlan(report: PlanReport): string {
+  const n = (value: number) => value.toLocaleString('en-US');
+  const cost = (estimate: PlanEstimate) => (estimate.cost !== undefined ? `$${estimate.cost.toFixed(4)}` : 'n/a');
+  const row = (name: string, e: PlanEstimate) =>
+    `  ${name.padEnd(16)} ${n(e.calls).padStart(7)} ${n(e.promptTokens).padStart(13)} ${n(e.completionTokens).padStart(17)} ${cost(e).padStart(10)}`;
+
+  const lines = [
+    `Plan for "${report.path}" (model ${report.model}, depth ${report.maxDepth}, maxChunkChars=${report.maxChunkChars}) – no model called`,
+    `  Files: ${report.files} to summarize, ${report.skippedFiles} skipped (ignored), ${report.emptyFiles} empty` +
+      `${report.depthLimited ? `, ${report.depthLimited} beyond depth` : ''}`,
+    `  Folders: ${report.folders} to aggregate · Chunks: ${report.chunks}${report.symbols ? ` · Symbols: ${report.symbols}` : ''}`,
+    '',
+    `  ${'Lens'.padEnd(16)} ${'Calls'.padStart(7)} ${'Prompt tokens'.padStart(13)} ${'Completion tokens'.padStart(17)} ${'Cost'.padStart(10)}`,
+    ...Object.entries(report.lenses).map(([lens, e]) => row(lens, e)),
+    row('total', report.total),
+    '',
+    `Estimates: ~4 chars/token, completions at the top of each lens word budget, largest chunks as the top ${TOP_CHUNKS};` +
+      ' cache hits and ranking repairs are not counted.',
+  ];
+  if (report.defaultWindow) {
+    lines.push(`No context window configured for this model: ${n(report.contextWindow)} tokens assumed for maxChunkChars (set --context-window or the models file; a run may fetch the real one).`);
+  }
+  if (!report.pricing) lines.push('No pricing known offline for this model: add it to --prices or the model definition to get a cost.');
+  return lines.join('\n');
+}
@@ -0,0 +1,128 @@
+import path from 'path';
+import { formatUsage, type TokenUsage, type UsageReport } from './usage.js';
+import type { RankingStats } from './ranking.js';
+import type { CacheStats } from './cache.js';
+import type { SummaryNode } from './prrs.js';
+
+// Progress of a run as typed events (PRRSOptions.onProgress). The core never prints: the CLI renders
+// the events on stderr, as a progress bar / log lines or as NDJSON, and keeps stdout for the result.
+
+export type NodeKind = NonNullable<SummaryNode['type']>;
+
+interface NodeRef {
+  lens: string;
+  path: string;
+  node: NodeKind;
+}
+
+export type ProgressEvent =
+  | { type: 'run-start'; root: string; lenses: string[]; model: string; files: number; maxChunkChars: number; incremental?: { ref: string; changedFiles: number } }
+  | { type: 'lens-start'; lens: string; source?: string }   // source: 'built-in', 'generic' or the lens file
+  | ({ type: 'node-start' } & NodeRef)       // files and folders (symbols are part of their file)
+  | ({ type: 'node-done'; calls: number; reused?: boolean } & NodeRef)   // the node's own calls (files: with their symbols); 0 = cache hit or static node
+  | ({ type: 'node-skipped'; reason: string } & NodeRef)
+  | ({ type: 'node-error'; error: string } & NodeRef)      // also failed/skipped symbols, before their file
+  | { type: 'llm-call'; lens: string; path: string; usage: TokenUsage }
+  | { type: 'warning'; message: string }
+  | { type: 'run-done'; failed: number; skipped: number; reused?: number; rankings: RankingStats; cache?: CacheStats & { dir: string }; usage: UsageReport; priced: boolean };
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+export type LogFormat = 'pretty' | 'json';
+export const LOG_FORMATS: LogFormat[] = ['pretty', 'json'];
+
+export interface RendererOptions {
+  format?: LogFormat;        // default pretty
+  verbose?: boolean;         // pretty: one line per node instead of the progress bar
+  stream?: NodeJS.WriteStream;  // default process.stderr
+}
+
+const BAR_WIDTH = 24;
+
+// End-of-run lines (pretty format)
+export function formatRunSummary(event: Extract<ProgressEvent, { type: 'run-done' }>): string[] {
+  const lines: string[] = [];
+  if (event.failed > 0) lines.push(`${event.failed} node(s) failed after retries (status: 'error')`);
+  if (event.skipped > 0) lines.push(`Budget exhausted: ${event.skipped} node(s) not processed (status: 'skipped')`);
+  if (event.reused !== undefined) lines.push(`Incremental: ${event.reused} node(s) carried over unchanged`);
+  const { ranked, repaired, fallback } = event.rankings;
+  if (ranked > 0) lines.push(`Rankings: ${ranked} made, ${repaired} needed repair, ${fallback} fell back to defaults`);
+  if (event.cache) lines.push(`Cache (${event.cache.dir}): ${event.cache.hits} hits, ${event.cache.misses} misses, ${event.cache.writes} writes`);
+  lines.push(`Usage: ${formatUsage(event.usage)}${event.priced ? '' : ' (no pricing known for this model)'}`);
+  return lines;
+}
+
+export function createProgressRenderer(options: RendererOptions = {}): ProgressListener {
+  const stream = options.stream ?? process.stderr;
+  if (options.format === 'json') {
+    return event => stream.write(`${JSON.stringify({ time: new Date().toISOString(), ...event })}\n`);
+  }
+
+  // Pretty: a redrawn bar on a terminal, plain lines otherwise (per node only with --verbose)
+  const bar = !options.verbose && !!stream.isTTY;
+  const name = (p: string) => path.relative(process.cwd(), p) || path.basename(p) || '.';
+  let total = 0;
+  let done = 0;
+  let calls = 0;
+  let tokens = 0;
+  let current = '';
+  let drawn = false;
+
+  const clear = () => {
+    if (drawn) stream.write('\r\x1b[2K');
+    drawn = false;
+  };
+  const line = (text: string) => {
+    clear();
+    stream.write(`${text}\n`);
+  };
+  const draw = () => {
+    if (!bar || !total) return;
+    const filled = Math.round(BAR_WIDTH * Math.min(done / total, 1));
+    const text = `[${'#'.repeat(filled)}${'-'.repeat(BAR_WIDTH - filled)}] ${done}/${total} files · ${calls} calls · ${tokens} tokens · ${current}`;
+    stream.write(`\r\x1b[2K${text.slice(0, (stream.columns || 100) - 1)}`);
+    drawn = true;
+  };
+
+  return event => {
+    switch (event.type) {
+      case 'run-start':
+        // One bar per run (watch mode: per pass)
+        [total, done, calls, tokens] = [event.files * event.lenses.length, 0, 0, 0];
+        if (event.incremental) line(`Incremental run: ${event.incremental.changedFiles} file(s) changed since ${event.incremental.ref}`);
+        else if (options.verbose) line(`Analyzing ${event.files} file(s) with ${event.model} (maxChunkChars=${event.maxChunkChars})`);
+        break;
+      case 'lens-start':
+        if (options.verbose) line(`\n--- Processing lens: ${event.lens} (${event.source ?? 'generic'}) ---`);
+        break;
+      case 'node-start':
+        current = `${event.lens}: ${name(event.path)}`;
+        if (options.verbose) line(`Processing ${event.node}: ${name(event.path)}`);
+        break;
+      case 'node-done':
+        if (event.node === 'file') done++;
+        if (options.verbose && !event.reused) line(`Done ${event.node}: ${name(event.path)} (${event.calls ? `${event.calls} call(s)` : 'no call'})`);
+        break;
+      case 'node-skipped':
+        if (event.node === 'file') done++;
+        if (options.verbose) line(`Skipped ${event.node}: ${name(event.path)} (${event.reason})`);
+        break;
+      case 'node-error':
+        if (event.node === 'file') done++;
+        line(`Failed ${event.node} ${name(event.path)}: ${event.error}`);
+        break;
+      case 'llm-call':
+        calls += event.usage.calls;
+        tokens += event.usage.totalTokens;
+        break;
+      case 'warning':
+        line(`Warning: ${event.message}`);
+        break;
+      case 'run-done':
+        clear();
+        formatRunSummary(event).forEach(text => line(text));
+        return;
+    }
+    draw();
+  };
+}
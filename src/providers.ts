@@ -0,0 +1,86 @@
+import { createOpenRouter } from '@openrouter/ai-sdk-provider';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { wrapLanguageModel, defaultSettingsMiddleware } from 'ai';
+import type { LanguageModelV2 } from '@openrouter/ai-sdk-provider';
+import type { ModelDefinition } from './models.js';
+import { createMockModel } from './mock-provider.js';
+
+// A provider turns a ModelDefinition into a ready-to-call model.
+// Creation is lazy: credentials are only checked when a model is actually resolved.
+export interface LLMProvider {
+  name: string;
+  description: string;
+  createModel(def: ModelDefinition): LanguageModelV2;
+}
+
+const registry = new Map<string, LLMProvider>();
+
+export function registerProvider(provider: LLMProvider): void {
+  registry.set(provider.name, provider);
+}
+
+export function getProvider(name: string): LLMProvider {
+  const provider = registry.get(name);
+  if (!provider) {
+    throw new Error(`Unknown provider "${name}". Available: ${[...registry.keys()].join(', ')}`);
+  }
+  return provider;
+}
+
+export function listProviders(): LLMProvider[] {
+  return [...registry.values()];
+}
+
+function readApiKey(envName: string, required: boolean): string | undefined {
+  const key = process.env[envName];
+  if (!key && required) {
+    throw new Error(`${envName} not defined. Use secrets.sh or export it manually.`);
+  }
+  return key;
+}
+
+// OpenRouter (default provider for the built-in Grok / gpt-oss models)
+registerProvider({
+  name: 'openrouter',
+  description: 'OpenRouter API (OPENROUTER_API_KEY)',
+  createModel(def) {
+    const openrouter = createOpenRouter({
+      apiKey: readApiKey(def.apiKeyEnv || 'OPENROUTER_API_KEY', true),
+      baseURL: def.baseURL || 'https://openrouter.ai/api/v1',
+    });
+    const extraBody = def.maxTokens ? { ...def.extraBody, max_tokens: def.maxTokens } : def.extraBody;
+    return openrouter(def.modelId, { extraBody });
+  }
+});
+
+// Any server speaking the OpenAI /v1/chat/completions protocol
+registerProvider({
+  name: 'openai-compatible',
+  description: 'OpenAI-compatible endpoint (OPENAI_BASE_URL, optional OPENAI_API_KEY)',
+  createModel(def) {
+    const baseURL = def.baseURL || process.env.OPENAI_BASE_URL;
+    if (!baseURL) {
+      throw new Error(`Model "${def.modelId}" needs a baseURL (set it in the definition or export OPENAI_BASE_URL).`);
+    }
+    const provider = createOpenAICompatible({
+      name: 'openai-compatible',
+      baseURL,
+      apiKey: readApiKey(def.apiKeyEnv || 'OPENAI_API_KEY', false),
+    });
+    return wrapLanguageModel({
+      model: provider.chatModel(def.modelId),
+      middleware: defaultSettingsMiddleware({
+        settings: { temperature: 0, maxOutputTokens: def.maxTokens },
+      }),
+    });
+  }
+});
+
+// Deterministic offline model: schema-valid rankings and stable summaries, no network
+registerProvider({
+  name: 'mock',
+  description: 'Offline deterministic responses (no network, no key)',
+  createModel(def) {
+    return createMockModel(def.modelId);
+  }
+});
@@ -1,20 +1,38 @@
 import fs from 'fs-extra';
 import path from 'path';
-import ts from 'typescript';
+import type { Stats } from 'fs';
 import type { LanguageModelV2 } from '@openrouter/ai-sdk-provider';
-import { generateText } from 'ai';
-import { modelMap, getContext } from './models.js';
+import { generateText, wrapLanguageModel, type ModelMessage } from 'ai';
+import { resolveModel, getModelDefinition, getContext, resolvePricing, defaultModelKey } from './models.js';
+import { loadIncrementalBase, type IncrementalBase } from './incremental.js';
+import { createPool, withCallPolicy, DEFAULT_CALL_POLICY, DEFAULT_CONCURRENCY, type CallPolicy, type TaskRunner } from './resilience.js';
+import { createLensRegistry, getLens, lensFingerprint, lensVars, renderTemplate, type LensDefinition, type LensRegistry } from './lenses.js';
+import { extractMetadata, rollupMetadata, type Metadata } from './metadata.js';
+import { createSummaryCache, clearCache, DEFAULT_CACHE_DIR, type SummaryCache } from './cache.js';
+import { createRankingStats, defaultRanking, normalizeRanking, parseMultiRanking, parseRankingResponse, rankingRepairPrompt, validateRanking, type RankingStats } from './ranking.js';
+import { createUsageTracker, addUsage, callUsage, emptyUsage, splitCall, loadPriceTable, type Budget, type ModelPricing, type TokenUsage, type UsageMeter, type UsageReport, type UsageTracker } from './usage.js';
+import { createFileFilter, listFiles, type FileFilter } from './file-filter.js';
+import type { ProgressEvent, ProgressListener } from './progress.js';
+import { splitFileIntoChunks, type Chunk } from './chunkers.js';
+import { selectSymbols, symbolPath, symbolSource, type SymbolInfo } from './symbols.js';
+import { FINDINGS_INSTRUCTIONS, parseFindings, type Finding } from './findings.js';
 
 
 export interface SummaryNode {
   summary: string;
   children: SummaryNode[];
   path?: string;
-  type?: 'file' | 'folder';
+  type?: 'file' | 'folder' | 'symbol';
+  status?: 'ok' | 'error' | 'skipped';  // 'error': LLM calls failed after retries; 'skipped': budget exhausted
+  error?: string;
+  metadata?: Metadata;      // exports/imports/complexity/LOC (files), roll-ups (folders)
+  findings?: Finding[];     // file nodes of findings-enabled lenses (e.g. security)
+  usage?: TokenUsage;       // LLM calls this run made for the node (files: their symbols too; folders: whole subtree)
+  symbol?: SymbolInfo;      // symbol nodes (--symbols): signature and line range
 }
 
-export interface RankedChunk {
-  chunk: string;
+export interface RankedChunk extends Chunk {
+  index: number;   // position of the chunk in the file
   score: number;
   reason: string;
 }
@@ -23,249 +41,168 @@ export interface PRRSSummaries {
   [lens: string]: SummaryNode;
 }
 
-// callLLM (inchangée)
-async function callLLM(prompt: string, model: LanguageModelV2): Promise<string> {
-  try {
-    const { text } = await generateText({
-      model,
-      messages: [{ role: 'user', content: prompt }],
-    });
-    return text.trim();
-  } catch (error) {
-    console.error('LLM Error:', error);
-    return 'Error in summarization';
-  }
+// callLLM : throws on failure (retries/backoff live in the model's CallPolicy, see resilience.ts)
+// Several meters share the call (one combined call for several lenses, see splitCall).
+export async function callLLM(prompt: string | ModelMessage[], model: LanguageModelV2, meter?: UsageMeter | UsageMeter[]): Promise<string> {
+  const { text, usage } = await generateText({
+    model,
+    messages: typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : prompt,
+    maxRetries: 0,
+  });
+  if (Array.isArray(meter)) splitCall(usage, meter.length).forEach((share, i) => meter[i].add(share, i === 0 ? 1 : 0));
+  else meter?.add(usage);
+  return text.trim();
 }
 
-// splitFileIntoChunks (inchangée)
-/**
- * Split a large piece of text into smaller chunks trying to respect statement boundaries.
- * Falls back to blunt splitting if necessary.
- */
-function splitTextBySize(text: string, maxChars = 4000): string[] {
-  if (!text) return [];
-  if (text.length <= maxChars) return [text.trim()];
-
-  const lines = text.split('\n');
-  const chunks: string[] = [];
-  let cur = '';
+// Numbered previews (with their line range) give context without forcing exact repetition
+function chunkPreviews(chunks: Chunk[]): string {
+  const previewLen = 400; // configurable preview length
+  return chunks.map((c, i) => `${i}) [L${c.startLine}-${c.endLine}] ${c.text.slice(0, previewLen).replace(/\n+/g, ' ')}${c.text.length > previewLen ? '…' : ''}`).join('\n');
+}
 
-  const pushCur = (force = false) => {
-    if (cur && (force || cur.length >= 1)) {
-      chunks.push(cur.trim());
-      cur = '';
-    }
-  };
+export function rankingPrompt(chunks: Chunk[], lens: LensDefinition): string {
+  const criteria = lens.rankingCriteria ? ` Most important: ${lens.rankingCriteria}.` : '';
+  return `Rank these chunks by index (0-${chunks.length - 1}) from "${lens.name}" perspective.${criteria} Respond with ONLY a valid JSON array, NO other text or explanations: [{"index": 0, "score": number (1-10), "reason": "brief reason"}]. Use ONLY the indices to identify chunks.\n\nChunks (index : preview):\n${chunkPreviews(chunks)}`;
+}
 
-  for (const rawLine of lines) {
-    const line = rawLine;
-    if ((cur + '\n' + line).length > maxChars) {
-      // try to find a safe split point inside `cur`
-      const splitCandidates = ['\n\n', ';\n', '};\n', '\n//', '\n'];
-      let splitPos = -1;
-      for (const cand of splitCandidates) {
-        const idx = cur.lastIndexOf(cand);
-        if (idx > splitPos) splitPos = idx + (cand.startsWith('\n') ? 1 : 0);
-      }
-      if (splitPos > 10) {
-        const head = cur.slice(0, splitPos).trim();
-        const tail = cur.slice(splitPos).trim();
-        if (head) chunks.push(head);
-        cur = tail + '\n' + line;
-        if (cur.length > maxChars) {
-          // still too big -> brute force chop
-          while (cur.length > maxChars) {
-            chunks.push(cur.slice(0, maxChars).trim());
-            cur = cur.slice(maxChars);
-          }
-        }
-      } else {
-        // no good split candidate -> push current and start fresh
-        pushCur();
-        if (line.length > maxChars) {
-          // single line too long -> hard split
-          let start = 0;
-          while (start < line.length) {
-            chunks.push(line.slice(start, start + maxChars));
-            start += maxChars;
-          }
-        } else {
-          cur = line;
-        }
-      }
-    } else {
-      cur += (cur ? '\n' : '') + line;
-    }
-  }
-  pushCur(true);
-  return chunks.map(s => s.trim()).filter(Boolean);
+// Single-pass runs: one ranking per lens in a single answer
+export function multiRankingPrompt(chunks: Chunk[], lenses: LensDefinition[]): string {
+  const perspectives = lenses.map(lens => `- "${lens.name}": ${lens.rankingCriteria ?? lens.description}`).join('\n');
+  const shape = lenses.map(lens => `"${lens.name}": [...]`).join(', ');
+  return `Rank the same chunks by index (0-${chunks.length - 1}) from each of these perspectives (most important for each):\n${perspectives}\n\nRespond with ONLY a valid JSON object, NO other text or explanations, with one key per perspective: {${shape}}. Each value is an array covering every index once: [{"index": 0, "score": number (1-10), "reason": "brief reason"}]. Use ONLY the indices to identify chunks.\n\nChunks (index : preview):\n${chunkPreviews(chunks)}`;
 }
 
-// splitFileIntoChunks: prefer semantic splitting using TypeScript AST, but limit chunk size
-function splitFileIntoChunks(fileContent: string, maxChunks = 10, maxChunkChars = 4000): string[] {
-  try {
-    const sourceFile = ts.createSourceFile('file.ts', fileContent, ts.ScriptTarget.Latest, /*setParentNodes*/ true);
-    const declTexts: string[] = [];
-
-    // Collect top-level children texts
-    sourceFile.forEachChild((node) => {
-      const start = node.getFullStart ? node.getFullStart() : node.pos;
-      const end = node.getEnd();
-      if (end > start) {
-        const txt = fileContent.slice(start, end).trim();
-        if (txt) {
-          if (txt.length > maxChunkChars) {
-            // split large declaration into smaller semantic-ish pieces
-            const sub = splitTextBySize(txt, maxChunkChars);
-            declTexts.push(...sub);
-          } else {
-            declTexts.push(txt);
-          }
-        }
-      }
-    });
+export type PromptKind = 'ranking' | 'ranking-repair' | 'multi-ranking' | 'file' | 'symbol' | 'folder';
 
-    if (!declTexts.length) throw new Error('No top-level declarations found');
+export interface PromptInfo {
+  kind: PromptKind;
+  lens: string;   // multi-ranking: the lens names, comma-separated
+  path: string;   // node the prompt is for (symbols: file#name)
+}
 
-    // If too many chunks, group contiguous chunks into buckets to respect maxChunks
-    if (declTexts.length <= maxChunks) {
-      return declTexts.map(c => c.trim()).filter(Boolean);
-    }
+// Library hooks (analyze() / PRRSOptions.hooks). Both may be async.
+export interface PRRSHooks {
+  prompt?: (prompt: string, info: PromptInfo) => string | Promise<string>;   // rewrite a prompt before it is sent
+  node?: (node: SummaryNode, info: { lens: string }) => SummaryNode | Promise<SummaryNode>;  // file/folder node, before its parent uses it
+}
 
-    const perBucket = Math.ceil(declTexts.length / maxChunks);
-    const grouped: string[] = [];
-    for (let i = 0; i < declTexts.length; i += perBucket) {
-      const group = declTexts.slice(i, i + perBucket).join('\n\n');
-      grouped.push(group.trim());
-    }
-    return grouped.map(c => c.trim()).filter(Boolean);
-  } catch (err) {
-    // Fallback: original heuristic with size limit
-    const chunks: string[] = [];
-    const lines = fileContent.split('\n');
-    let currentChunk: string[] = [];
-    let chunkCount = 0;
-
-    const flushCurrent = () => {
-      if (currentChunk.length) {
-        const txt = currentChunk.join('\n');
-        if (txt.length > maxChunkChars) {
-          chunks.push(...splitTextBySize(txt, maxChunkChars));
-        } else {
-          chunks.push(txt);
-        }
-        currentChunk = [];
-        chunkCount++;
-      }
-    };
+type PreparePrompt = (prompt: string, kind: PromptKind) => Promise<string>;
+const noHook: PreparePrompt = async prompt => prompt;
 
-    for (const line of lines) {
-      if (chunkCount >= maxChunks) {
-        currentChunk.push(line);
-        continue;
-      }
-      if (line.match(/^(def|class|function|const|let|var|import|export)\s+\w+|^\s*\/\/\s*(TODO|NOTE|FIXME)/i)) {
-        if (currentChunk.length) {
-          flushCurrent();
-          currentChunk = [line];
-        } else {
-          currentChunk = [line];
-        }
-      } else {
-        currentChunk.push(line);
-      }
-      // if current grows too big, flush it
-      const curText = currentChunk.join('\n');
-      if (curText.length > maxChunkChars) {
-        const parts = splitTextBySize(curText, maxChunkChars);
-        chunks.push(...parts.slice(0, -1));
-        currentChunk = [parts[parts.length - 1]];
-        chunkCount = chunks.length;
-      }
-    }
-    if (currentChunk.length && chunkCount < maxChunks) {
-      flushCurrent();
-    }
-    // Finally clamp to maxChunks by grouping if necessary
-    if (chunks.length <= maxChunks) return chunks.map(c => c.trim()).filter(Boolean);
-    const perBucket = Math.ceil(chunks.length / maxChunks);
-    const grouped: string[] = [];
-    for (let i = 0; i < chunks.length; i += perBucket) {
-      grouped.push(chunks.slice(i, i + perBucket).join('\n\n'));
-    }
-    return grouped.map(c => c.trim()).filter(Boolean);
-  }
+// What a node's LLM calls are recorded on and rewritten by
+interface NodeCallOptions {
+  stats?: RankingStats;
+  meter?: UsageMeter;
+  warn?: (message: string) => void;
+  prepare?: PreparePrompt;
 }
 
-// rankChunksByImportance : utilise des indices (plus robuste que demander le texte exact)
-async function rankChunksByImportance(chunks: string[], lens: string, model: LanguageModelV2): Promise<RankedChunk[]> {
+// rankChunksByImportance : utilise des indices (plus robuste que demander le texte exact).
+// The answer is validated (see ranking.ts); an invalid one gets a single repair round-trip
+// with the validation errors, then whatever is usable is normalized (deduped, completed, sorted).
+async function rankChunksByImportance(chunks: Chunk[], lens: LensDefinition, model: LanguageModelV2, { stats, meter, warn, prepare = noHook }: NodeCallOptions = {}): Promise<RankedChunk[]> {
   if (!chunks || chunks.length === 0) return [];
 
-  // Build numbered previews to give context without forcing exact repetition.
-  const previewLen = 400; // configurable preview length
-  const previews = chunks.map((c, i) => `${i}) ${c.slice(0, previewLen).replace(/\n+/g, ' ')}${c.length > previewLen ? '…' : ''}`).join('\n');
-  const prompt = `Rank these chunks by index (0-${chunks.length - 1}) from "${lens}" perspective. Respond with ONLY a valid JSON array, NO other text or explanations: [{"index": 0, "score": number (1-10), "reason": "brief reason"}]. Use ONLY the indices to identify chunks.\n\nChunks (index : preview):\n${previews}`;
-  const response = await callLLM(prompt, model);
+  const prompt = await prepare(rankingPrompt(chunks, lens), 'ranking');
+  if (stats) stats.ranked++;
 
-  // Try direct JSON.parse first (trimmed)
-  let parsed: any;
-  try {
-    parsed = JSON.parse(response.trim());
-    if (Array.isArray(parsed) && parsed.every((p: any) => typeof p.index === 'number' && typeof p.score === 'number')) {
-      return parsed.map((p: any) => {
-        const idx = Math.max(0, Math.min(chunks.length - 1, Number(p.index)));
-        return { chunk: chunks[idx], score: Number(p.score), reason: p.reason || 'No reason provided' } as RankedChunk;
-      });
+  const attempt = (response: string) => {
+    try {
+      const raw = parseRankingResponse(response);
+      return { raw, errors: validateRanking(raw, chunks.length) };
+    } catch (error: any) {
+      return { raw: undefined, errors: [error.message] };
     }
-  } catch (e) {
-    // fall through to regex fallback
+  };
+
+  const response = await callLLM(prompt, model, meter);
+  let result = attempt(response);
+  if (result.errors.length) {
+    if (stats) stats.repaired++;
+    const repair = await callLLM([
+      { role: 'user', content: prompt },
+      { role: 'assistant', content: response },
+      { role: 'user', content: await prepare(rankingRepairPrompt(result.errors, chunks.length), 'ranking-repair') },
+    ], model, meter);
+    const repaired = attempt(repair);
+    // Keep the first answer if the repair is not better
+    if (repaired.raw !== undefined && (result.raw === undefined || repaired.errors.length <= result.errors.length)) result = repaired;
   }
 
-  // Regex fallback : extract first JSON-like array found
-  const arrayMatch = response.match(/\[[\s\S]*?\]/);
-  if (arrayMatch) {
-    try {
-      parsed = JSON.parse(arrayMatch[0]);
-      if (Array.isArray(parsed) && parsed.length > 0) {
-        return parsed
-          .filter((p: any) => p.index !== undefined && !isNaN(Number(p.index)))
-          .map((p: any) => {
-            const idx = Math.max(0, Math.min(chunks.length - 1, Number(p.index)));
-            return { chunk: chunks[idx], score: Number(p.score) || 5, reason: p.reason || 'Extracted ranking' } as RankedChunk;
-          });
-      }
-    } catch (err) {
-      // ignore and fallback
-    }
+  let ranking = normalizeRanking(result.raw, chunks.length);
+  if (!ranking) {
+    if (stats) stats.fallback++;
+    warn?.(`Ranking fallback to defaults (${result.errors[0]})`);
+    ranking = defaultRanking(chunks.length);
   }
+  return ranking.map(entry => ({ ...chunks[entry.index], ...entry }));
+}
 
-  // Ultimate fallback : neutral defaults
-  console.warn('Fallback to defaults (parsing fully failed)');
-  return chunks.slice(0, Math.min(chunks.length, 10)).map(chunk => ({ chunk, score: 5, reason: 'Default ranking (parse failed)' }));
+// One call ranking the chunks for several lenses, its usage split between their meters; lenses whose
+// part is unusable are left out (rankChunksByImportance then ranks them on their own, with its repair round-trip)
+async function rankChunksForLenses(chunks: Chunk[], lenses: LensDefinition[], model: LanguageModelV2, meters: UsageMeter[], { stats, prepare = noHook }: NodeCallOptions = {}): Promise<Map<string, RankedChunk[]>> {
+  const prompt = await prepare(multiRankingPrompt(chunks, lenses), 'multi-ranking');
+  if (stats) stats.ranked++;
+  const parts = parseMultiRanking(await callLLM(prompt, model, meters.length ? meters : undefined), lenses.map(lens => lens.name), chunks.length);
+  const rankings = new Map<string, RankedChunk[]>();
+  for (const [lens, ranking] of Object.entries(parts)) {
+    if (ranking) rankings.set(lens, ranking.map(entry => ({ ...chunks[entry.index], ...entry })));
+  }
+  return rankings;
 }
 
-// summarizeChunks (inchangée)
-async function summarizeChunks(rankedChunks: RankedChunk[], lens: string, model: LanguageModelV2): Promise<string> {
-  const topChunks = rankedChunks.slice(0, 5).map(c => `${c.score}: ${c.reason}\n${c.chunk}`).join('\n');
-  const prompt = `Summarize these top-ranked TypeScript/JavaScript code chunks from "${lens}" perspective: key patterns, dependencies, potential issues/impacts. Concise (100-200 words).\n\nTop chunks with scores/reasons:\n${topChunks}`;
-  return await callLLM(prompt, model);
+export const TOP_CHUNKS = 5;
+
+// File prompt over the top-ranked chunks (findings-enabled lenses get numbered chunks + the FINDINGS instructions).
+// With --symbols, the symbol summaries are appended so the file summary aggregates them.
+export function fileSummaryPrompt(top: Array<Pick<RankedChunk, 'text' | 'score' | 'reason'>>, lens: LensDefinition, symbols: Array<Pick<SummaryNode, 'summary' | 'symbol'>> = []): string {
+  const topChunks = lens.findings
+    ? top.map((c, i) => `Chunk ${i} (${c.score}: ${c.reason}):\n${c.text}`).join('\n')
+    : top.map(c => `${c.score}: ${c.reason}\n${c.text}`).join('\n');
+  let prompt = renderTemplate(lens.fileTemplate, { ...lensVars(lens, 'file'), chunks: topChunks });
+  const symbolLines = symbols.filter(s => s.symbol && s.summary)
+    .map(s => `- ${s.symbol!.signature} (L${s.symbol!.startLine}-${s.symbol!.endLine}): ${s.summary.slice(0, 300)}`);
+  if (symbolLines.length) prompt += `\n\nExported symbols (already summarized, fold them into the file summary):\n${symbolLines.join('\n')}`;
+  return lens.findings ? prompt + FINDINGS_INSTRUCTIONS : prompt;
 }
 
-// Estimate max chunk characters based on model context window (tokens).
-async function estimateMaxChunkChars(modelKey?: string): Promise<number> {
-  // Map known model keys to token windows (best-effort). Adjust if you know exact values.
-  const tokenWindowByModel: Record<string, number> = {
-    'g4f-reasoning': 8192,
-    'g4f-no-reasoning': 8192,
-  };
-  const defaultTokens = 4096;
+const SYMBOL_WORDS = '40-80';
+
+// Symbol prompt (--symbols): one exported declaration with its signature and line range
+export function symbolSummaryPrompt(symbol: SymbolInfo, code: string, lens: LensDefinition): string {
+  const criteria = lens.rankingCriteria ? ` Focus on: ${lens.rankingCriteria}.` : '';
+  return `Summarize the exported ${symbol.kind} "${symbol.name}" from "${lens.name}" perspective: what it does, its inputs/outputs and what matters for this lens.${criteria} Concise (${SYMBOL_WORDS} words), no headings.\n\nSignature: ${symbol.signature}\nLines ${symbol.startLine}-${symbol.endLine}:\n${code}`;
+}
+
+// Folder prompt over the children's summaries (only their first 100 chars)
+export function folderSummaryPrompt(children: Array<Pick<SummaryNode, 'path' | 'summary'>>, lens: LensDefinition): string {
+  const childSummaries = children.map(c => `${path.basename(c.path || '')}: ${c.summary.slice(0, 100)}...`).join('\n');
+  return renderTemplate(lens.folderTemplate, { ...lensVars(lens, 'folder'), children: childSummaries });
+}
 
-  let tokens = defaultTokens;
+// summarizeChunks : findings-enabled lenses number the chunks so findings can be mapped back to file lines
+async function summarizeChunks(rankedChunks: RankedChunk[], lens: LensDefinition, model: LanguageModelV2, filePath: string, { meter, warn, prepare = noHook }: NodeCallOptions = {}, symbols: SummaryNode[] = []): Promise<{ summary: string; findings?: Finding[] }> {
+  const top = rankedChunks.slice(0, TOP_CHUNKS);  // rankings arrive sorted by score (ranking.ts)
+  const prompt = await prepare(fileSummaryPrompt(top, lens, symbols), 'file');
+  if (!lens.findings) return { summary: await callLLM(prompt, model, meter) };
+  const response = await callLLM(prompt, model, meter);
+  return parseFindings(response, top, filePath, warn);
+}
+
+// Context window (tokens) assumed when the model has none configured and none can be fetched
+export const DEFAULT_CONTEXT_WINDOW = 4096;
+
+// Estimate max chunk characters based on model context window (tokens).
+// The window comes from the model definition; OpenRouter models without one fall back to the endpoints API
+// (skipped when offline: the default window is used).
+export async function estimateMaxChunkChars(modelKey?: string, offline = false, warn: (message: string) => void = console.warn): Promise<number> {
+  let tokens = DEFAULT_CONTEXT_WINDOW;
 
   if (modelKey) {
-    if (tokenWindowByModel[modelKey]) {
-      tokens = tokenWindowByModel[modelKey];
-    } else {
+    const def = getModelDefinition(modelKey);
+    if (def.contextWindow) {
+      tokens = def.contextWindow;
+    } else if (def.provider === 'openrouter' && !offline) {
       // Try to fetch runtime provider context from models.getContext
       try {
         const ctx = await getContext(modelKey);
@@ -273,8 +210,8 @@ async function estimateMaxChunkChars(modelKey?: string): Promise<number> {
           tokens = ctx;
         }
       } catch (err) {
-        // If anything fails, fall back to the best-effort static mapping above
-        console.warn(`estimateMaxChunkChars: failed to fetch context for "${modelKey}", falling back to defaults:`, err);
+        // If anything fails, fall back to the default window above
+        warn(`estimateMaxChunkChars: failed to fetch context for "${modelKey}", falling back to defaults: ${(err as Error)?.message ?? err}`);
       }
     }
   }
@@ -284,63 +221,456 @@ async function estimateMaxChunkChars(modelKey?: string): Promise<number> {
   return approxChars;
 }
 
+// Summaries that are constant for a given position (no LLM call) get a fixed cache key,
+// so folders containing them stay cacheable.
+const STATIC_CACHE_KEYS: Record<string, string> = {
+  'Depth limit reached': 'static:depth-limit',
+  'Empty file': 'static:empty-file',
+  'No chunks extracted': 'static:no-chunks',
+  'Empty folder (ignored items only)': 'static:empty-folder',
+};
+
+function staticNode(node: SummaryNode, cache?: SummaryCache): SummaryNode {
+  return cache ? cache.remember(node, STATIC_CACHE_KEYS[node.summary]) : node;
+}
+
+// Store a fresh LLM summary (failed nodes never reach the cache)
+async function storeSummary(node: SummaryNode, key: string, lens: string, cache?: SummaryCache): Promise<SummaryNode> {
+  if (!cache) return node;
+  const symbols = node.children.filter(c => c.symbol).map(c => ({ symbol: c.symbol!, summary: c.summary }));
+  await cache.set(key, {
+    summary: node.summary,
+    ...(node.findings ? { findings: node.findings } : {}),
+    ...(symbols.length ? { symbols } : {}),
+  }, lens, node.path);
+  return cache.remember(node, key);
+}
+
+type NodeType = NonNullable<SummaryNode['type']>;
+
+// A node whose LLM calls failed for good: no fake summary text, just the error
+function failedNode(nodePath: string, type: NodeType, error: unknown, children: SummaryNode[] = []): SummaryNode {
+  const message = error instanceof Error ? error.message : String(error);
+  return { summary: '', children, path: nodePath, type, status: 'error', error: message };
+}
+
+// A node left unprocessed because the run's token/cost budget ran out
+function skippedNode(nodePath: string, type: NodeType, ctx: RRSContext, children: SummaryNode[] = []): SummaryNode {
+  ctx.usage?.skipped();
+  return { summary: '', children, path: nodePath, type, status: 'skipped', error: 'Budget exhausted' };
+}
+
+function countStatus(node: SummaryNode, status: SummaryNode['status']): number {
+  return (node.status === status ? 1 : 0) + node.children.reduce((n, c) => n + countStatus(c, status), 0);
+}
+
+// Node usage only when it made calls
+function withUsage(node: SummaryNode, usage?: TokenUsage): SummaryNode {
+  if (usage && usage.calls > 0) node.usage = usage;
+  return node;
+}
+
+// Folder usage = its own aggregation call + every child's (already rolled-up) usage
+function rollupUsage(node: SummaryNode): SummaryNode {
+  const total = emptyUsage();
+  [node, ...node.children].forEach(n => { if (n.usage) addUsage(total, n.usage); });
+  return withUsage(node, total);
+}
+
+// Carried-over nodes were paid for by a previous run: drop their usage
+function withoutUsage(node: SummaryNode): SummaryNode {
+  const { usage: _usage, ...rest } = node;
+  return { ...rest, children: node.children.map(withoutUsage) };
+}
+
+// Per-run state shared by every rrs call
+export interface RRSContext {
+  model: LanguageModelV2;
+  maxChunkChars: number;
+  pool?: TaskRunner;              // bounds concurrent file/folder LLM work (unbounded if omitted)
+  cache?: SummaryCache;
+  incremental?: IncrementalBase;  // carry unchanged nodes over from a previous result
+  lenses?: LensRegistry;          // lens definitions (built-ins are used when omitted)
+  metadata?: boolean;             // attach metadata.ts facts to nodes (default true)
+  ranking?: RankingStats;         // counts rankings that needed a repair or fell back to defaults
+  usage?: UsageTracker;           // token/cost accounting and budget (unlimited if omitted)
+  filter?: FileFilter;            // which files are analyzed (created from the root folder if omitted)
+  symbols?: boolean;              // nest symbol nodes (significant exported declarations) under file nodes
+  onProgress?: ProgressListener;  // node/LLM-call events (silent if omitted)
+  hooks?: PRRSHooks;              // prompt/node rewriting (library API)
+  signal?: AbortSignal;           // cancels the run: no new node starts, in-flight calls are aborted
+  shared?: SharedWalk;            // single-pass runs: filesystem and chunk work shared by the lenses
+}
+
+// What a file node is built from
+interface FileWork {
+  content: string;
+  metadata?: Metadata;
+  symbols: SymbolInfo[];
+  chunks?: Chunk[];   // single-pass: chunked once for every lens
+  rank?: (lens: LensDefinition, options: NodeCallOptions) => Promise<RankedChunk[]>;   // single-pass: combined ranking
+  meters?: Map<string, UsageMeter | undefined>;   // single-pass: each lens's file meter, charged its share of the combined call
+}
+
+// Per-run memo of a single-pass run (PRRSOptions.singlePass): the lens passes still build one tree
+// each, but every stat, listing and file (read, metadata, chunks, ranking) is done once for all of them
+interface SharedWalk {
+  lenses: LensDefinition[];
+  stats: Map<string, Promise<Stats>>;
+  listings: Map<string, Promise<string[]>>;
+  files: Map<string, Promise<FileWork>>;
+}
+
+function once<T>(memo: Map<string, Promise<T>> | undefined, key: string, load: () => Promise<T>): Promise<T> {
+  if (!memo) return load();
+  let value = memo.get(key);
+  if (!value) memo.set(key, (value = load()));
+  return value;
+}
+
+const preparer = (ctx: RRSContext, lens: string, nodePath: string): PreparePrompt =>
+  ctx.hooks?.prompt ? async (prompt, kind) => ctx.hooks!.prompt!(prompt, { kind, lens, path: nodePath }) : noHook;
+
+// Node hook result; the cache key of the original node carries over (folders above stay cacheable)
+async function applyNodeHook(ctx: RRSContext, lens: string, node: SummaryNode): Promise<SummaryNode> {
+  if (!ctx.hooks?.node) return node;
+  const result = await ctx.hooks.node(node, { lens });
+  return ctx.cache && result !== node ? ctx.cache.carryKey(node, result) : result;
+}
+
+const emit = (ctx: RRSContext, event: ProgressEvent) => ctx.onProgress?.(event);
+
+// Usage meter of a node; every call it records is also reported as an llm-call event
+function nodeMeter(ctx: RRSContext, lens: string, nodePath: string): UsageMeter | undefined {
+  const meter = ctx.usage?.meter(lens);
+  if (!meter || !ctx.onProgress) return meter;
+  return {
+    usage: meter.usage,
+    add(raw, calls) {
+      meter.add(raw, calls);
+      emit(ctx, { type: 'llm-call', lens, path: nodePath, usage: callUsage(raw, ctx.usage!.pricing, calls) });
+    },
+  };
+}
+
+// Outcome event of a processed node (failed/skipped symbols are reported before their file)
+function reportNode(ctx: RRSContext, lens: string, nodePath: string, kind: NodeType, node: SummaryNode) {
+  if (!ctx.onProgress) return;
+  node.children.filter(c => c.symbol && c.status).forEach(c => reportNode(ctx, lens, c.path!, 'symbol', c));
+  const ref = { lens, path: nodePath, node: kind };
+  if (node.status === 'error') emit(ctx, { type: 'node-error', ...ref, error: node.error ?? 'unknown error' });
+  else if (node.status === 'skipped') emit(ctx, { type: 'node-skipped', ...ref, reason: node.error ?? 'Budget exhausted' });
+  else emit(ctx, { type: 'node-done', ...ref, calls: node.usage?.calls ?? 0 });
+}
+
+// Carried-over subtree: every file/folder in it is done without a call
+function reportReused(ctx: RRSContext, lens: string, node: SummaryNode) {
+  if (!ctx.onProgress) return;
+  if (node.path && (node.type === 'file' || node.type === 'folder')) emit(ctx, { type: 'node-done', lens, path: node.path, node: node.type, calls: 0, reused: true });
+  node.children.forEach(child => reportReused(ctx, lens, child));
+}
+
+const symbolNode = (filePath: string, symbol: SymbolInfo, summary: string): SummaryNode =>
+  ({ summary, children: [], path: symbolPath(filePath, symbol), type: 'symbol', symbol });
+
+const fileCacheKey = (ctx: RRSContext, content: string, lensDef: LensDefinition, symbols: SymbolInfo[]) =>
+  ctx.cache?.fileKey(content, lensFingerprint(lensDef) + (symbols.length ? '+symbols' : ''), ctx.maxChunkChars);
+
+// The lenses still needing this file's ranking (a cached summary needs none) share one call, made by
+// the first of them to get there and charged in equal shares to each of their file meters.
+// A lens missing from its answer, or a failed call, falls back to its own ranking.
+async function sharedRanker(ctx: RRSContext, shared: SharedWalk, filePath: string, content: string, symbols: SymbolInfo[], chunks: Chunk[]): Promise<Pick<FileWork, 'rank' | 'meters'>> {
+  const pending: LensDefinition[] = [];
+  for (const lens of shared.lenses) {
+    const key = fileCacheKey(ctx, content, lens, symbols);
+    if (!key || !(await ctx.cache!.has(key))) pending.push(lens);
+  }
+  if (pending.length < 2) return {};
+  // By name: registry lenses are rebuilt on each getLens() call, so the objects differ between lookups
+  const meters = new Map(pending.map(lens => [lens.name, nodeMeter(ctx, lens.name, filePath)]));
+  let combined: Promise<Map<string, RankedChunk[]> | undefined> | undefined;
+  const rank: FileWork['rank'] = async (lens, options) => {
+    if (meters.has(lens.name)) {
+      const shares = [...meters.values()].filter(meter => meter !== undefined);
+      combined ??= rankChunksForLenses(chunks, pending, ctx.model, shares, { ...options, prepare: preparer(ctx, [...meters.keys()].join(','), filePath) })
+        .catch((error: any) => {
+          options.warn?.(`Combined ranking failed (${error.message}), ranking per lens`);
+          return undefined;
+        });
+      const ranked = (await combined)?.get(lens.name);
+      if (ranked) return ranked;
+    }
+    return rankChunksByImportance(chunks, lens, ctx.model, options);
+  };
+  return { rank, meters };
+}
+
+async function loadFile(ctx: RRSContext, filePath: string): Promise<FileWork> {
+  const content = await fs.readFile(filePath, 'utf8');
+  if (!content.trim()) return { content, symbols: [] };
+  // Static facts (exports, imports, complexity, LOC) are computed locally, never cached with the prose
+  const warn = (message: string) => emit(ctx, { type: 'warning', message });
+  const metadata = ctx.metadata === false ? undefined : await extractMetadata(filePath, content, warn);
+  const symbols = ctx.symbols ? selectSymbols(metadata ?? await extractMetadata(filePath, content, warn)) : [];
+  if (!ctx.shared) return { content, metadata, symbols };
+  const chunks = splitFileIntoChunks(content, filePath, 10, ctx.maxChunkChars);
+  return { content, metadata, symbols, chunks, ...(await sharedRanker(ctx, ctx.shared, filePath, content, symbols, chunks)) };
+}
+
+// One call per symbol; a failed or skipped symbol keeps its node (and keeps the file out of the cache)
+async function summarizeSymbol(filePath: string, content: string, symbol: SymbolInfo, lensDef: LensDefinition, ctx: RRSContext, meter?: UsageMeter): Promise<SummaryNode> {
+  const nodePath = symbolPath(filePath, symbol);
+  if (ctx.usage?.exhausted()) return { ...skippedNode(nodePath, 'symbol', ctx), symbol };
+  try {
+    const prompt = await preparer(ctx, lensDef.name, nodePath)(symbolSummaryPrompt(symbol, symbolSource(content, symbol, ctx.maxChunkChars), lensDef), 'symbol');
+    return symbolNode(filePath, symbol, await callLLM(prompt, ctx.model, meter));
+  } catch (error) {
+    return { ...failedNode(nodePath, 'symbol', error), symbol };
+  }
+}
+
+// File node: cached summary, or rank + summarize its chunks (after its symbols, with --symbols)
+async function summarizeFile(filePath: string, work: FileWork, lensDef: LensDefinition, ctx: RRSContext): Promise<SummaryNode> {
+  const { model, maxChunkChars, cache } = ctx;
+  const { content, symbols } = work;
+  const key = fileCacheKey(ctx, content, lensDef, symbols);
+  const cached = key ? await cache!.get(key) : undefined;
+  if (cached !== undefined) {
+    const { symbols: cachedSymbols, ...restored } = cached;
+    const children = (cachedSymbols ?? []).map(s => symbolNode(filePath, s.symbol, s.summary));
+    return cache!.remember({ ...restored, children, path: filePath, type: 'file' }, key!);
+  }
+
+  const chunks = work.chunks ?? splitFileIntoChunks(content, filePath, 10, maxChunkChars);
+  if (chunks.length === 0) return staticNode({ summary: 'No chunks extracted', children: [] }, cache);
+  if (ctx.usage?.exhausted()) return skippedNode(filePath, 'file', ctx);
+
+  const meter = work.meters?.has(lensDef.name) ? work.meters.get(lensDef.name) : nodeMeter(ctx, lensDef.name, filePath);
+  const children: SummaryNode[] = [];
+  for (const symbol of symbols) children.push(await summarizeSymbol(filePath, content, symbol, lensDef, ctx, meter));
+  try {
+    const prepare = preparer(ctx, lensDef.name, filePath);
+    const warn = (message: string) => emit(ctx, { type: 'warning', message: `${filePath}: ${message}` });
+    const rankOptions: NodeCallOptions = { stats: ctx.ranking, meter, warn, prepare };
+    const ranked = await (work.rank ? work.rank(lensDef, rankOptions) : rankChunksByImportance(chunks, lensDef, model, rankOptions));
+    const { summary, findings } = await summarizeChunks(ranked, lensDef, model, filePath, { meter, prepare, warn: message => emit(ctx, { type: 'warning', message }) }, children.filter(c => !c.status));
+    const node: SummaryNode = { summary, children, path: filePath, type: 'file', ...(findings ? { findings } : {}) };
+    const complete = children.every(c => !c.status);
+    return withUsage(complete ? await storeSummary(node, key!, lensDef.name, cache) : node, meter?.usage);
+  } catch (error) {
+    return withUsage(failedNode(filePath, 'file', error, children), meter?.usage);
+  }
+}
+
+// Folder node: cached aggregation, or one LLM call over the successful children's summaries
+async function aggregateFolder(folderPath: string, children: SummaryNode[], lensDef: LensDefinition, ctx: RRSContext): Promise<SummaryNode> {
+  const { model, cache } = ctx;
+  const pool: TaskRunner = ctx.pool ?? (task => task());
+
+  // Failed/skipped children stay in the tree but never feed the aggregation prompt
+  const succeeded = children.filter(c => c.status !== 'error' && c.status !== 'skipped');
+  if (succeeded.length === 0) {
+    if (children.every(c => c.status === 'skipped')) return skippedNode(folderPath, 'folder', ctx, children);
+    return failedNode(folderPath, 'folder', new Error('All children failed'), children);
+  }
+
+  // Folder key derives from the children's keys: unchanged subtree => no aggregation call
+  const key = cache?.folderKey(children, lensFingerprint(lensDef));
+  const cached = key ? await cache!.get(key) : undefined;
+  if (cached !== undefined) {
+    return cache!.remember({ summary: cached.summary, children, path: folderPath, type: 'folder' }, key!);
+  }
+
+  // Aggregate sur filtered (plus efficient)
+  const prompt = await preparer(ctx, lensDef.name, folderPath)(folderSummaryPrompt(succeeded, lensDef), 'folder');
+  // Budget checked once a slot is free, right before the call
+  const meter = nodeMeter(ctx, lensDef.name, folderPath);
+  try {
+    const summary = await pool(async () => (ctx.usage?.exhausted() ? undefined : callLLM(prompt, model, meter)));
+    if (summary === undefined) return skippedNode(folderPath, 'folder', ctx, children);
+    const node: SummaryNode = { summary, children, path: folderPath, type: 'folder' };  // Retourne filtered
+    return withUsage(key ? await storeSummary(node, key, lensDef.name, cache) : node, meter?.usage);
+  } catch (error) {
+    return withUsage(failedNode(folderPath, 'folder', error, children), meter?.usage);
+  }
+}
+
+// File metadata of a whole subtree (folders roll up every descendant file)
+function collectFileMetadata(nodes: SummaryNode[]): Metadata[] {
+  return nodes.flatMap(node => {
+    if (node.type === 'file') return node.metadata ? [node.metadata] : [];
+    return collectFileMetadata(node.children);
+  });
+}
+
+function withMetadata(node: SummaryNode, metadata?: Metadata): SummaryNode {
+  if (metadata) node.metadata = metadata;
+  return node;
+}
+
 // rrs : Ajout optional skip filter (après boucle for, avant aggregate)
-async function rrs(folderPath: string, lens: string, depth = 0, maxDepth = 3, model: LanguageModelV2, maxChunkChars = 4000): Promise<SummaryNode> {
-  if (depth > maxDepth) return { summary: 'Depth limit reached', children: [] };
+// Siblings are processed concurrently; ctx.pool caps how many files/aggregations hit the LLM at once.
+async function rrs(folderPath: string, lens: string, depth = 0, maxDepth = 3, ctx: RRSContext): Promise<SummaryNode> {
+  const lensDef = getLens(lens, ctx.lenses);
+  const pool: TaskRunner = ctx.pool ?? (task => task());
+  ctx.signal?.throwIfAborted();
+  if (depth > maxDepth) return staticNode({ summary: 'Depth limit reached', children: [] }, ctx.cache);
+
+  const reused = ctx.incremental?.reuse(folderPath, lens);
+  if (reused) {
+    reportReused(ctx, lens, reused);
+    return withoutUsage(reused);
+  }
 
-  const stats = await fs.stat(folderPath);
+  const stats = await once(ctx.shared?.stats, folderPath, () => fs.stat(folderPath));
   const isFile = stats.isFile();
-  const children: SummaryNode[] = [];
+  // Ignore rules (.gitignore, .prrsignore, --include/--exclude) are resolved once per run
+  const filter = ctx.filter ?? (ctx.filter = createFileFilter(folderPath));
 
   if (isFile) {
-    const ext = path.extname(folderPath);
-    if (!ext.match(/\.ts$|\.js$|\.py$|\.json$/i)) {
-      console.log(`Skipping non-code file: ${path.basename(folderPath)}`);
+    if (!filter.accepts(folderPath, false)) {
+      emit(ctx, { type: 'warning', message: `Skipping non-code file: ${folderPath}` });
       return { summary: 'Skipped (non-source file)', children: [], path: folderPath, type: 'file' };
     }
-    console.log(`Processing file: ${path.basename(folderPath)}`);
-    const content = await fs.readFile(folderPath, 'utf8');
-    if (!content.trim()) return { summary: 'Empty file', children: [] };
-
-  const chunks = splitFileIntoChunks(content, 10, maxChunkChars);
-    if (chunks.length === 0) return { summary: 'No chunks extracted', children: [] };
-
-    const ranked = await rankChunksByImportance(chunks, lens, model);
-    const summary = await summarizeChunks(ranked, lens, model);
-    return { summary, children: [], path: folderPath, type: 'file' };
+    return pool(async () => {
+      ctx.signal?.throwIfAborted();
+      emit(ctx, { type: 'node-start', lens, path: folderPath, node: 'file' });
+      const built = await (async () => {
+        const work = await once(ctx.shared?.files, folderPath, () => loadFile(ctx, folderPath));
+        if (!work.content.trim()) return staticNode({ summary: 'Empty file', children: [] }, ctx.cache);
+        return withMetadata(await summarizeFile(folderPath, work, lensDef, ctx), work.metadata);
+      })();
+      ctx.signal?.throwIfAborted();  // an aborted call ends up as a failed node: don't report it as one
+      const node = await applyNodeHook(ctx, lens, built);
+      reportNode(ctx, lens, folderPath, 'file', node);
+      return node;
+    });
   } else {
-    console.log(`Processing folder: ${path.basename(folderPath)}`);
-    const items = await fs.readdir(folderPath);
-    for (const item of items) {
+    emit(ctx, { type: 'node-start', lens, path: folderPath, node: 'folder' });
+    const items = await once(ctx.shared?.listings, folderPath, () => fs.readdir(folderPath));
+    const children = await Promise.all(items.map(async (item): Promise<SummaryNode | undefined> => {
       const itemPath = path.join(folderPath, item);
-      const itemStats = await fs.stat(itemPath);
-      if (itemStats.isDirectory() && (item === 'node_modules' || item === '.git' || item === 'dist')) continue;
-  const childSummary = await rrs(itemPath, lens, depth + 1, maxDepth, model, maxChunkChars);
-      children.push(childSummary);
-    }
+      const itemStats = await once(ctx.shared?.stats, itemPath, () => fs.stat(itemPath));
+      if (!filter.accepts(itemPath, itemStats.isDirectory())) return undefined;
+      return rrs(itemPath, lens, depth + 1, maxDepth, ctx);
+    }));
 
     // NOUVEAU : Filtre skips à la source (clean children pour aggregate/JSON/tree)
-    const filteredChildren = children.filter(c => !c.summary.startsWith('Skipped (non-source file)'));
-    if (filteredChildren.length === 0) return { summary: 'Empty folder (ignored items only)', children: [], path: folderPath, type: 'folder' };
-
-    // Aggregate sur filtered (plus efficient)
-    const childSummaries = filteredChildren.map(c => `${path.basename(c.path || '')}: ${c.summary.slice(0, 100)}...`).join('\n');
-    const prompt = `Summarize these child code summaries from "${lens}" perspective: overall structure, key interactions/dependencies, high-level insights. Concise.\n\nChild summaries:\n${childSummaries}`;
-    const summary = await callLLM(prompt, model);
-    return { summary, children: filteredChildren, path: folderPath, type: 'folder' };  // Retourne filtered
+    const filteredChildren = children.filter((c): c is SummaryNode => !!c && !c.summary.startsWith('Skipped (non-source file)'));
+    if (filteredChildren.length === 0) {
+      const empty = staticNode({ summary: 'Empty folder (ignored items only)', children: [], path: folderPath, type: 'folder' }, ctx.cache);
+      reportNode(ctx, lens, folderPath, 'folder', empty);
+      return applyNodeHook(ctx, lens, empty);
+    }
+
+    const metadata = ctx.metadata === false ? undefined : rollupMetadata(collectFileMetadata(filteredChildren));
+    ctx.signal?.throwIfAborted();
+    const node = await aggregateFolder(folderPath, filteredChildren, lensDef, ctx);
+    ctx.signal?.throwIfAborted();
+    reportNode(ctx, lens, folderPath, 'folder', node);  // before the roll-up: the folder's own calls
+    return applyNodeHook(ctx, lens, withMetadata(rollupUsage(node), metadata));
   }
 }
 
+export interface PRRSOptions {
+  cache?: boolean;       // default true; false bypasses the summary cache entirely
+  cacheDir?: string;     // default .prrs-cache (relative to cwd)
+  clearCache?: boolean;  // wipe the cache directory before running
+  previous?: string;     // previous --output json result to reuse (requires since)
+  since?: string;        // git ref: only files changed since it are re-summarized
+  incremental?: IncrementalBase;  // in-memory base instead of previous/since (prrs watch)
+  lensesDir?: string;    // project lens definitions (default ./lenses)
+  metadata?: boolean;    // extract static metadata (default true)
+  concurrency?: number;  // max files/folders processed at once (default 4)
+  callPolicy?: Partial<CallPolicy>;  // rate limit, retries, timeout for every LLM call
+  budget?: Budget;       // stop calling the LLM once maxTokens/maxCost is reached (nodes left 'skipped')
+  pricesFile?: string;   // local price table, used when the model definition has no pricing
+  onUsage?: (report: UsageReport) => void;  // receives the run's usage report at the end
+  include?: string[];    // gitignore-style globs: only matching files are analyzed
+  exclude?: string[];    // gitignore-style globs added on top of .gitignore / .prrsignore
+  gitignore?: boolean;   // honor .gitignore files (default true)
+  symbols?: boolean;     // summarize significant exported symbols as children of their file (JS/TS)
+  onProgress?: ProgressListener;  // typed progress events (run/lens/node/LLM call); nothing is printed without it
+  model?: LanguageModelV2;        // injected model instance: modelKey then only names it (cache keys, usage report)
+  maxChunkChars?: number;         // chunk size override (default: from the model's context window)
+  pricing?: ModelPricing;         // price per token, e.g. for an injected model (wins over --prices / the definition)
+  hooks?: PRRSHooks;              // rewrite prompts before they are sent and nodes once built
+  signal?: AbortSignal;           // abort the run: prrs() rejects with the signal's reason
+  singlePass?: boolean;           // several lenses: walk, read and chunk once, one combined ranking call per file
+}
+
+// Cancellation reaches every call: the signal is merged into the call's own (retry policy timeouts)
+function withAbortSignal(model: LanguageModelV2, signal: AbortSignal): LanguageModelV2 {
+  return wrapLanguageModel({
+    model,
+    middleware: {
+      transformParams: async ({ params }) => ({
+        ...params,
+        abortSignal: params.abortSignal ? AbortSignal.any([params.abortSignal, signal]) : signal,
+      }),
+    },
+  });
+}
+
 // prrs (inchangée, déjà bonne)
-async function prrs(folderPath: string, lenses = ['architecture'], modelKey = 'g4f-reasoning', maxDepth = 3): Promise<PRRSSummaries> {
+async function prrs(folderPath: string, lenses = ['architecture'], modelKey = defaultModelKey, maxDepth = 3, options: PRRSOptions = {}): Promise<PRRSSummaries> {
   const summaries: PRRSSummaries = {};
-  const modelToUse = modelKey in modelMap ? (modelMap[modelKey as keyof typeof modelMap]) : modelMap['g4f-reasoning'];
-  const maxChunkChars = await estimateMaxChunkChars(modelKey);
+  const onProgress = options.onProgress;
+  // Retry, context window and pricing warnings are progress events when someone listens (console.warn otherwise)
+  const warn = onProgress ? (message: string) => onProgress({ type: 'warning', message }) : undefined;
+  const { signal } = options;
+  signal?.throwIfAborted();
+  const policyModel = withCallPolicy(options.model ?? resolveModel(modelKey), { ...DEFAULT_CALL_POLICY, ...(warn ? { onRetry: warn } : {}), ...options.callPolicy });
+  const modelToUse = signal ? withAbortSignal(policyModel, signal) : policyModel;
+  // An injected model has no definition to read its context window from
+  const maxChunkChars = options.maxChunkChars ?? await estimateMaxChunkChars(options.model ? undefined : modelKey, false, warn);
+  const cacheDir = options.cacheDir || DEFAULT_CACHE_DIR;
+  if (options.clearCache) await clearCache(cacheDir);
+  const cache = options.cache === false ? undefined : createSummaryCache(modelKey, cacheDir);
+  if (options.incremental && options.previous) {
+    throw new Error('Incremental mode takes either a base or a previous result (--previous), not both.');
+  }
+  if (!!options.previous !== !!options.since) {
+    throw new Error('Incremental mode needs both a previous result and a git ref (--previous <file> --since <ref>).');
+  }
+  const incremental = options.previous ? await loadIncrementalBase(options.previous, options.since!, folderPath) : options.incremental;
+  const pool = createPool(Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY));
+  const lensRegistry = await createLensRegistry(options.lensesDir);
+  const ranking = createRankingStats();
+  const priceTable = options.pricesFile ? await loadPriceTable(options.pricesFile) : undefined;
+  const pricing = options.pricing ?? (options.model ? priceTable?.[modelKey] : await resolvePricing(modelKey, priceTable, false, warn));
+  const usage = createUsageTracker(pricing, options.budget);
+  const filter = createFileFilter(folderPath, { include: options.include, exclude: options.exclude, gitignore: options.gitignore });
+  const shared: SharedWalk | undefined = options.singlePass && lenses.length > 1
+    ? { lenses: lenses.map(lens => getLens(lens, lensRegistry)), stats: new Map(), listings: new Map(), files: new Map() }
+    : undefined;
+  const ctx: RRSContext = { model: modelToUse, maxChunkChars, pool, cache, incremental, lenses: lensRegistry, metadata: options.metadata, ranking, usage, filter, symbols: options.symbols, onProgress, hooks: options.hooks, signal, shared };
+  if (onProgress) {
+    // File count for progress bars (same walk as the run, without reading the files)
+    const files = (await listFiles(folderPath, filter, maxDepth)).length;
+    onProgress({
+      type: 'run-start', root: folderPath, lenses, model: modelKey, files, maxChunkChars,
+      ...(incremental ? { incremental: { ref: incremental.ref, changedFiles: incremental.changedFiles.length } } : {}),
+    });
+  }
   for (const lens of lenses) {
-    console.log(`\n--- Processing lens: ${lens} with model ${modelKey} (maxChunkChars=${maxChunkChars}) ---`);
-    summaries[lens] = await rrs(folderPath, lens, 0, maxDepth, modelToUse, maxChunkChars);
+    emit(ctx, { type: 'lens-start', lens, source: getLens(lens, lensRegistry).source });
+    summaries[lens] = await rrs(folderPath, lens, 0, maxDepth, ctx);
   }
+  signal?.throwIfAborted();
+  const report = usage.report(modelKey);
+  emit(ctx, {
+    type: 'run-done',
+    failed: Object.values(summaries).reduce((n, root) => n + countStatus(root, 'error'), 0),
+    skipped: Object.values(summaries).reduce((n, root) => n + countStatus(root, 'skipped'), 0),
+    ...(incremental ? { reused: incremental.stats.reused } : {}),
+    rankings: { ...ranking },
+    ...(cache ? { cache: { dir: cache.dir, ...cache.stats } } : {}),
+    usage: report,
+    priced: !!pricing,
+  });
+  options.onUsage?.(report);
   return summaries;
 }
 
-export { prrs, rrs };
\ No newline at end of file
+export { prrs, rrs };
@@ -0,0 +1,133 @@
+// Chunk-ranking answers: parsing, schema validation and normalization.
+// Schema: a JSON array with exactly one { index, score, reason } per chunk,
+// index an integer in [0, count-1], score a number in [1, 10], reason a string.
+
+export interface RankingEntry {
+  index: number;
+  score: number;
+  reason: string;
+}
+
+export interface RankingStats {
+  ranked: number;     // ranking calls made
+  repaired: number;   // answers that failed validation and got a repair round-trip
+  fallback: number;   // rankings that ended on neutral defaults (nothing usable)
+}
+
+export function createRankingStats(): RankingStats {
+  return { ranked: 0, repaired: 0, fallback: 0 };
+}
+
+export const MIN_SCORE = 1;
+export const MAX_SCORE = 10;
+
+// JSON.parse on the trimmed answer, then inside ``` fences, then the outermost [...] span
+export function parseRankingResponse(response: string): unknown {
+  const candidates = [response.trim()];
+  const fenced = response.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) candidates.push(fenced[1].trim());
+  const start = response.indexOf('[');
+  const end = response.lastIndexOf(']');
+  if (start >= 0 && end > start) candidates.push(response.slice(start, end + 1));
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // next candidate
+    }
+  }
+  throw new Error('the answer is not valid JSON (expected a JSON array)');
+}
+
+// Every schema violation, worded so it can be sent back to the model
+export function validateRanking(raw: unknown, count: number): string[] {
+  if (!Array.isArray(raw)) return ['the answer must be a JSON array'];
+  const errors: string[] = [];
+  const seen = new Set<number>();
+  raw.forEach((item, i) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      errors.push(`item ${i} must be an object`);
+      return;
+    }
+    const { index, score, reason } = item as Record<string, unknown>;
+    if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index >= count) {
+      errors.push(`item ${i}: "index" must be an integer between 0 and ${count - 1} (got ${JSON.stringify(index)})`);
+    } else if (seen.has(index)) {
+      errors.push(`item ${i}: index ${index} is ranked more than once`);
+    } else {
+      seen.add(index);
+    }
+    if (typeof score !== 'number' || !Number.isFinite(score) || score < MIN_SCORE || score > MAX_SCORE) {
+      errors.push(`item ${i}: "score" must be a number between ${MIN_SCORE} and ${MAX_SCORE} (got ${JSON.stringify(score)})`);
+    }
+    if (typeof reason !== 'string') errors.push(`item ${i}: "reason" must be a string`);
+  });
+  const missing = [...Array(count).keys()].filter(i => !seen.has(i));
+  if (missing.length) errors.push(`missing indices: ${missing.join(', ')}`);
+  return errors;
+}
+
+// Best-effort repair of whatever is usable: first occurrence of each index wins, scores are clamped,
+// unranked chunks are appended with the lowest score. Sorted by score desc, then index asc.
+// Undefined when nothing is usable.
+export function normalizeRanking(raw: unknown, count: number): RankingEntry[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const byIndex = new Map<number, RankingEntry>();
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue;
+    const index = Number(item.index);
+    if (!Number.isInteger(index) || index < 0 || index >= count || byIndex.has(index)) continue;
+    const score = Number(item.score);
+    byIndex.set(index, {
+      index,
+      score: Number.isFinite(score) ? Math.min(MAX_SCORE, Math.max(MIN_SCORE, score)) : MIN_SCORE,
+      reason: typeof item.reason === 'string' && item.reason ? item.reason : 'No reason provided',
+    });
+  }
+  if (byIndex.size === 0) return undefined;
+  for (let index = 0; index < count; index++) {
+    if (!byIndex.has(index)) byIndex.set(index, { index, score: MIN_SCORE, reason: 'Not ranked by the model' });
+  }
+  return sortRanking([...byIndex.values()]);
+}
+
+export function sortRanking(entries: RankingEntry[]): RankingEntry[] {
+  return [...entries].sort((a, b) => b.score - a.score || a.index - b.index);
+}
+
+// Neutral defaults when neither the answer nor its repair is usable: file order, score 5
+export function defaultRanking(count: number): RankingEntry[] {
+  return [...Array(count).keys()].map(index => ({ index, score: 5, reason: 'Default ranking (parse failed)' }));
+}
+
+export function rankingRepairPrompt(errors: string[], count: number): string {
+  return `Your answer does not match the expected format:\n- ${errors.slice(0, 10).join('\n- ')}\n\nRespond again with ONLY the corrected JSON array: exactly one {"index", "score", "reason"} object per index from 0 to ${count - 1}, score between ${MIN_SCORE} and ${MAX_SCORE}. No other text.`;
+}
+
+// Combined ranking (single-pass runs): {"<lens>": [<ranking>], ...}. Each lens part is validated
+// like a single ranking; invalid or missing parts come back undefined (the caller ranks them alone).
+export function parseMultiRanking(response: string, lenses: string[], count: number): Record<string, RankingEntry[] | undefined> {
+  const candidates = [response.trim()];
+  const fenced = response.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) candidates.push(fenced[1].trim());
+  const start = response.indexOf('{');
+  const end = response.lastIndexOf('}');
+  if (start >= 0 && end > start) candidates.push(response.slice(start, end + 1));
+
+  let raw: any;
+  for (const candidate of candidates) {
+    try {
+      raw = JSON.parse(candidate);
+      break;
+    } catch {
+      // next candidate
+    }
+  }
+  const parts: Record<string, RankingEntry[] | undefined> = {};
+  for (const lens of lenses) {
+    const part = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw[lens] : undefined;
+    parts[lens] = validateRanking(part, count).length ? undefined : normalizeRanking(part, count);
+  }
+  return parts;
+}
@@ -0,0 +1,105 @@
+import { wrapLanguageModel } from 'ai';
+import type { LanguageModelV2 } from '@openrouter/ai-sdk-provider';
+
+// How every LLM call of a run is throttled and retried
+export interface CallPolicy {
+  requestsPerMinute?: number;  // undefined/0 = unlimited
+  retries: number;             // extra attempts after the first one
+  baseDelayMs: number;         // backoff: baseDelayMs * 2^attempt (+ jitter), or Retry-After
+  timeoutMs: number;           // per-attempt timeout
+  onRetry?: (message: string) => void;  // default console.warn
+}
+
+export const DEFAULT_CALL_POLICY: CallPolicy = {
+  retries: 3,
+  baseDelayMs: 1000,
+  timeoutMs: 120_000,
+};
+
+export const DEFAULT_CONCURRENCY = 4;
+
+export type TaskRunner = <T>(task: () => Promise<T>) => Promise<T>;
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Bounded pool: at most `concurrency` tasks run at once, the rest wait in FIFO order
+export function createPool(concurrency: number): TaskRunner {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  // A finishing task hands its slot straight to the next waiter (no window for overtaking)
+  const release = () => {
+    const next = queue.shift();
+    if (next) next();
+    else active--;
+  };
+
+  return async function run<T>(task: () => Promise<T>): Promise<T> {
+    if (active >= concurrency) {
+      await new Promise<void>(resolve => queue.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  };
+}
+
+// Spaces requests evenly so that no more than `requestsPerMinute` start per minute
+export function createRateLimiter(requestsPerMinute?: number) {
+  const interval = requestsPerMinute && requestsPerMinute > 0 ? 60_000 / requestsPerMinute : 0;
+  let next = 0;
+  return async function acquire(): Promise<void> {
+    if (!interval) return;
+    const now = Date.now();
+    const at = Math.max(now, next);
+    next = at + interval;
+    if (at > now) await sleep(at - now);
+  };
+}
+
+// 429, 5xx, timeouts and network failures are worth another attempt; 4xx are not
+export function isRetryableError(error: any): boolean {
+  if (!error) return false;
+  if (error.name === 'TimeoutError') return true;
+  const status = error.statusCode ?? error.status;
+  if (typeof status === 'number') return status === 429 || status >= 500;
+  if (typeof error.isRetryable === 'boolean') return error.isRetryable;
+  const code = error.code ?? error.cause?.code;
+  return ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'UND_ERR_SOCKET'].includes(code)
+    || /fetch failed|network/i.test(String(error.message));
+}
+
+function retryDelay(error: any, attempt: number, baseDelayMs: number): number {
+  const retryAfter = Number(error?.responseHeaders?.['retry-after']);
+  if (Number.isFinite(retryAfter) && retryAfter > 0) return retryAfter * 1000;
+  return baseDelayMs * 2 ** attempt + Math.floor(Math.random() * baseDelayMs / 4);
+}
+
+// Wrap a model so each generate call goes through the rate limiter, a per-attempt timeout
+// and exponential backoff. Errors that survive the retries are rethrown to the caller.
+export function withCallPolicy(model: LanguageModelV2, policy: CallPolicy = DEFAULT_CALL_POLICY): LanguageModelV2 {
+  const acquire = createRateLimiter(policy.requestsPerMinute);
+  return wrapLanguageModel({
+    model,
+    middleware: {
+      wrapGenerate: async ({ params, model: inner }) => {
+        for (let attempt = 0; ; attempt++) {
+          await acquire();
+          const signals = [AbortSignal.timeout(policy.timeoutMs), params.abortSignal].filter(Boolean) as AbortSignal[];
+          try {
+            return await inner.doGenerate({ ...params, abortSignal: AbortSignal.any(signals) });
+          } catch (error: any) {
+            if (params.abortSignal?.aborted || attempt >= policy.retries || !isRetryableError(error)) throw error;
+            const delay = retryDelay(error, attempt, policy.baseDelayMs);
+            (policy.onRetry ?? console.warn)(`LLM call failed (${error?.statusCode ?? error?.name ?? 'error'}), retry ${attempt + 1}/${policy.retries} in ${delay}ms`);
+            await sleep(delay);
+          }
+        }
+      },
+    },
+  });
+}
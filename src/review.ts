@@ -0,0 +1,387 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type { LanguageModelV2 } from '@openrouter/ai-sdk-provider';
+import { callLLM } from './prrs.js';
+import { splitFileIntoChunks, type Chunk } from './chunkers.js';
+import { createLensRegistry, getLens, type LensDefinition } from './lenses.js';
+import { createFileFilter, type FileFilterOptions } from './file-filter.js';
+import { isSeverity, SEVERITIES, type Severity } from './findings.js';
+import { git } from './incremental.js';
+import type { UsageTracker, UsageReport } from './usage.js';
+
+// prrs review: review a branch from its `git diff` against the merge base with --base. For each changed
+// file, the chunks overlapping the hunks give the model context, and each lens says what the change
+// affects plus line-anchored comments (new-file lines, as PR review APIs expect). A last call writes
+// the PR-level summary.
+
+export interface DiffLine {
+  kind: 'add' | 'del' | 'context';
+  text: string;
+  oldLine?: number;   // absent on added lines
+  newLine?: number;   // absent on removed lines
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  header: string;     // text after the second @@ (enclosing function, when git finds one)
+  lines: DiffLine[];
+}
+
+export interface FileDiff {
+  path: string;       // new path, relative to the repository root ('/'-separated)
+  oldPath?: string;   // renames only
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  binary: boolean;
+  hunks: DiffHunk[];
+}
+
+export interface ReviewComment {
+  path: string;
+  line: number;        // last line of the range, in the new file
+  startLine?: number;  // multi-line comments
+  lens: string;
+  severity: Severity;
+  title: string;
+  body: string;
+  suggestion?: string;
+}
+
+export interface FileReview {
+  path: string;
+  oldPath?: string;
+  status: FileDiff['status'];
+  additions: number;
+  deletions: number;
+  notes: Record<string, string>;  // lens → what the change affects
+  skipped?: string;               // why the file was not reviewed (deleted, binary…)
+}
+
+export interface ReviewResult {
+  base: string;
+  mergeBase: string;
+  lenses: string[];
+  summary: string;
+  files: FileReview[];
+  comments: ReviewComment[];   // most severe first
+  usage?: UsageReport;
+}
+
+export interface ReviewOptions extends FileFilterOptions {
+  lenses?: string[];       // default ['architecture']
+  lensesDir?: string;
+  maxChunkChars?: number;  // context budget per excerpt (default 4000); twice that for the diff and for the code of a file
+  tracker?: UsageTracker;  // metered per lens, the PR summary under "summary"
+  warn?: (message: string) => void;   // default console.warn
+}
+
+const toPosix = (p: string) => p.split(path.sep).join('/');
+
+// "a/src/x.ts" → "src/x.ts"; /dev/null → undefined
+function diffPath(raw: string): string | undefined {
+  const unquoted = raw.trim().replace(/^"(.*)"$/, '$1');
+  if (unquoted === '/dev/null') return undefined;
+  return unquoted.replace(/^[ab]\//, '');
+}
+
+// Unified diff (git diff output) → files with numbered hunk lines
+export function parseUnifiedDiff(text: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  let file: FileDiff | undefined;
+  let hunk: DiffHunk | undefined;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const line of text.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      const match = line.match(/^diff --git "?a\/(.*?)"? "?b\/(.*?)"?$/);
+      file = { path: match?.[2] ?? '', status: 'modified', binary: false, hunks: [] };
+      files.push(file);
+      hunk = undefined;
+      continue;
+    }
+    if (!file) continue;
+    const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/);
+    if (header) {
+      hunk = {
+        oldStart: Number(header[1]), oldLines: header[2] !== undefined ? Number(header[2]) : 1,
+        newStart: Number(header[3]), newLines: header[4] !== undefined ? Number(header[4]) : 1,
+        header: header[5].trim(), lines: [],
+      };
+      [oldLine, newLine] = [hunk.oldStart, hunk.newStart];
+      file.hunks.push(hunk);
+      continue;
+    }
+    if (!hunk) {
+      // Extended header lines, before the first hunk
+      if (line.startsWith('new file mode')) file.status = 'added';
+      else if (line.startsWith('deleted file mode')) file.status = 'deleted';
+      else if (line.startsWith('rename from ')) [file.status, file.oldPath] = ['renamed', line.slice('rename from '.length)];
+      else if (line.startsWith('rename to ')) file.path = line.slice('rename to '.length);
+      else if (line.startsWith('Binary files ') || line === 'GIT binary patch') file.binary = true;
+      else if (line.startsWith('--- ')) file.oldPath ??= file.status === 'renamed' ? diffPath(line.slice(4)) : undefined;
+      else if (line.startsWith('+++ ')) file.path = diffPath(line.slice(4)) ?? file.path;
+      continue;
+    }
+    if (line.startsWith('+')) hunk.lines.push({ kind: 'add', text: line.slice(1), newLine: newLine++ });
+    else if (line.startsWith('-')) hunk.lines.push({ kind: 'del', text: line.slice(1), oldLine: oldLine++ });
+    else if (line.startsWith(' ')) hunk.lines.push({ kind: 'context', text: line.slice(1), oldLine: oldLine++, newLine: newLine++ });
+    // "\ No newline at end of file" and the trailing empty line carry no content
+  }
+  return files;
+}
+
+// Diff of the working tree against the merge base of `base` and HEAD, limited to folderPath
+export async function getReviewDiff(folderPath: string, base: string): Promise<{ root: string; mergeBase: string; files: FileDiff[] }> {
+  const cwd = fs.statSync(folderPath).isDirectory() ? folderPath : path.dirname(folderPath);
+  const root = (await git(cwd, ['rev-parse', '--show-toplevel'])).trim();
+  const mergeBase = (await git(root, ['merge-base', base, 'HEAD'])).trim();
+  const scope = toPosix(path.relative(root, path.resolve(folderPath))) || '.';
+  const diff = await git(root, ['-c', 'core.quotePath=false', 'diff', '--no-color', '--no-ext-diff', '--unified=3', mergeBase, '--', scope]);
+  return { root, mergeBase, files: parseUnifiedDiff(diff) };
+}
+
+// Diff as the model sees it: new line numbers on the left, so comments can cite them
+export function formatHunks(hunks: DiffHunk[], maxChars = Infinity): string {
+  const out: string[] = [];
+  let size = 0;
+  for (const hunk of hunks) {
+    const lines = [`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@ ${hunk.header}`.trimEnd()];
+    for (const line of hunk.lines) {
+      const number = line.newLine !== undefined ? String(line.newLine).padStart(5) : '     ';
+      lines.push(`${line.kind === 'add' ? '+' : line.kind === 'del' ? '-' : ' '}${number} | ${line.text}`);
+    }
+    const block = lines.join('\n');
+    if (size + block.length > maxChars) {
+      out.push(`… (${hunks.length - out.length} more hunk(s) not shown)`);
+      break;
+    }
+    out.push(block);
+    size += block.length;
+  }
+  return out.join('\n');
+}
+
+// New-file range a hunk touches (a pure deletion touches the line it was removed before)
+const hunkRange = (hunk: DiffHunk) => ({ start: hunk.newStart, end: hunk.newStart + Math.max(hunk.newLines, 1) - 1 });
+
+// Chunks of the new file overlapping at least one hunk, within maxChars
+export function chunksForHunks(chunks: Chunk[], hunks: DiffHunk[], maxChars = Infinity): Chunk[] {
+  const ranges = hunks.map(hunkRange);
+  const selected: Chunk[] = [];
+  let budget = maxChars;
+  for (const chunk of chunks) {
+    if (!ranges.some(r => chunk.startLine <= r.end && chunk.endLine >= r.start)) continue;
+    if (chunk.text.length > budget) break;
+    selected.push(chunk);
+    budget -= chunk.text.length;
+  }
+  return selected;
+}
+
+export function reviewPrompt(file: FileDiff, diff: string, context: Chunk[], lens: LensDefinition): string {
+  const criteria = lens.rankingCriteria ? ` Pay most attention to ${lens.rankingCriteria}.` : '';
+  const code = context.map(c => `Lines ${c.startLine}-${c.endLine}:\n${c.text}`).join('\n\n');
+  return `Review this change to ${file.path} from "${lens.name}" perspective (${lens.description}).${criteria} First say in 1-3 sentences what the change affects for this lens. Then add a line "COMMENTS:" followed by ONLY a JSON array (empty if nothing deserves a comment) of review comments on the new version of the file:
+[{"line": <new line number, preferably a + line>, "endLine": <optional, last line of a range>, "severity": "${SEVERITIES.join('|')}", "title": "short title", "body": "what the change gets wrong or risks, and why", "suggestion": "optional fix"}]
+
+Diff (new line numbers on the left; + added, - removed):
+${diff}
+
+Code around the change (new version):
+${code || '(not available)'}`;
+}
+
+// Lines a review comment can sit on: added and context lines of the hunks
+const commentableLines = (hunks: DiffHunk[]) =>
+  hunks.flatMap(h => h.lines.filter(l => l.newLine !== undefined).map(l => ({ line: l.newLine!, added: l.kind === 'add' })));
+
+// Split a review answer into the note and its comments. Lines outside the diff are moved to the
+// closest changed line (review APIs reject them); a missing or malformed COMMENTS block keeps the note only.
+export function parseReviewComments(response: string, file: FileDiff, lens: string, warn: (message: string) => void = console.warn): { note: string; comments: ReviewComment[] } {
+  const marker = response.lastIndexOf('COMMENTS:');
+  if (marker < 0) return { note: response.trim(), comments: [] };
+  const note = response.slice(0, marker).trim();
+  const tail = response.slice(marker + 'COMMENTS:'.length);
+  const start = tail.indexOf('[');
+  const end = tail.lastIndexOf(']');
+
+  let raw: unknown;
+  try {
+    raw = start >= 0 && end > start ? JSON.parse(tail.slice(start, end + 1)) : [];
+  } catch {
+    warn(`Unparseable COMMENTS block for ${file.path} (${lens}), keeping the note only`);
+    return { note, comments: [] };
+  }
+  const anchors = commentableLines(file.hunks);
+  if (!Array.isArray(raw) || !anchors.length) return { note, comments: [] };
+
+  const onDiff = new Set(anchors.map(a => a.line));
+  const changed = anchors.filter(a => a.added).map(a => a.line);
+  const snap = (n: number) => {
+    if (onDiff.has(n)) return n;
+    const candidates = changed.length ? changed : [...onDiff];
+    return candidates.reduce((best, line) => (Math.abs(line - n) < Math.abs(best - n) ? line : best));
+  };
+
+  const comments: ReviewComment[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object' || typeof item.title !== 'string' || !item.title.trim()) continue;
+    const first = snap(Number.isFinite(Number(item.line)) ? Math.floor(Number(item.line)) : 0);
+    const last = Number.isFinite(Number(item.endLine)) ? snap(Math.floor(Number(item.endLine))) : first;
+    const severity = String(item.severity ?? '').toLowerCase();
+    comments.push({
+      path: file.path,
+      line: Math.max(first, last),
+      ...(last > first ? { startLine: first } : {}),
+      lens,
+      severity: isSeverity(severity) ? severity : 'medium',
+      title: item.title.trim(),
+      body: typeof item.body === 'string' ? item.body.trim() : '',
+      ...(typeof item.suggestion === 'string' && item.suggestion.trim() ? { suggestion: item.suggestion.trim() } : {}),
+    });
+  }
+  return { note, comments };
+}
+
+const changeLabel = (f: FileReview) => `${f.status}${f.oldPath ? ` from ${f.oldPath}` : ''}, +${f.additions}/-${f.deletions}`;
+
+export function reviewSummaryPrompt(files: FileReview[], comments: ReviewComment[], lenses: string[]): string {
+  const fileLines = files.map(f => {
+    const notes = Object.entries(f.notes).map(([lens, note]) => `  [${lens}] ${note.replace(/\s+/g, ' ')}`);
+    return [`- ${f.path} (${changeLabel(f)})${f.skipped ? ` — not reviewed: ${f.skipped}` : ''}`, ...notes].join('\n');
+  });
+  const commentLines = comments.map(c => `- [${c.severity}] ${c.path}:${c.line} ${c.title} (${c.lens})`);
+  return `Write the pull request review summary from these per-file reviews (lenses: ${lenses.join(', ')}): what the change does, what it affects for each lens, the most severe comments first, and whether it looks ready to merge. Markdown, concise (100-200 words), no top-level heading.
+
+Files:
+${fileLines.join('\n')}
+
+Comments:
+${commentLines.join('\n') || '(none)'}`;
+}
+
+const FALLBACK_COMMENTS = 5;
+
+// PR summary without the model (its call failed): the numbers and the most severe comments
+function listSummary(files: FileReview[], comments: ReviewComment[], reason: string): string {
+  const reviewed = files.filter(f => !f.skipped);
+  const additions = reviewed.reduce((n, f) => n + f.additions, 0);
+  const deletions = reviewed.reduce((n, f) => n + f.deletions, 0);
+  const counts = SEVERITIES.map(severity => [severity, comments.filter(c => c.severity === severity).length] as const)
+    .filter(([, n]) => n > 0)
+    .map(([severity, n]) => `${n} ${severity}`);
+  const lines = [
+    `_Summary unavailable (${reason})._`,
+    '',
+    `${reviewed.length} file(s) reviewed (+${additions}/-${deletions}), ${comments.length} comment(s)${counts.length ? `: ${counts.join(', ')}` : ''}.`,
+  ];
+  const top = comments.slice(0, FALLBACK_COMMENTS).map(c => `- [${c.severity}] \`${c.path}:${c.line}\` ${c.title} (${c.lens})`);
+  if (top.length) lines.push('', ...top);
+  if (comments.length > top.length) lines.push(`- … and ${comments.length - top.length} more`);
+  return lines.join('\n');
+}
+
+export async function reviewDiff(folderPath: string, base: string, model: LanguageModelV2, options: ReviewOptions = {}): Promise<ReviewResult> {
+  const lensNames = options.lenses?.length ? options.lenses : ['architecture'];
+  const registry = await createLensRegistry(options.lensesDir);
+  const lenses = lensNames.map(name => getLens(name, registry));
+  const maxChunkChars = options.maxChunkChars ?? 4000;
+  const { root, mergeBase, files: diffs } = await getReviewDiff(folderPath, base);
+  const filter = createFileFilter(root, options);
+  const warn = options.warn ?? console.warn;
+
+  const files: FileReview[] = [];
+  const comments: ReviewComment[] = [];
+  for (const diff of diffs) {
+    const abs = path.resolve(root, diff.path);
+    const accepted = diff.path.split('/').every((_, i, parts) => filter.accepts(path.join(root, ...parts.slice(0, i + 1)), i < parts.length - 1));
+    if (!accepted) continue;
+    const lines = diff.hunks.flatMap(h => h.lines);
+    const review: FileReview = {
+      path: diff.path,
+      ...(diff.oldPath ? { oldPath: diff.oldPath } : {}),
+      status: diff.status,
+      additions: lines.filter(l => l.kind === 'add').length,
+      deletions: lines.filter(l => l.kind === 'del').length,
+      notes: {},
+    };
+    files.push(review);
+    const skipped = diff.status === 'deleted' ? 'deleted' : diff.binary ? 'binary' : !diff.hunks.length ? 'no content change' : !fs.existsSync(abs) ? 'missing from the working tree' : undefined;
+    if (skipped) {
+      review.skipped = skipped;
+      continue;
+    }
+
+    const content = await fs.readFile(abs, 'utf8');
+    const context = chunksForHunks(splitFileIntoChunks(content, abs, Infinity, maxChunkChars), diff.hunks, maxChunkChars * 2);
+    const hunks = formatHunks(diff.hunks, maxChunkChars * 2);
+    for (const lens of lenses) {
+      try {
+        const answer = await callLLM(reviewPrompt(diff, hunks, context, lens), model, options.tracker?.meter(lens.name));
+        const parsed = parseReviewComments(answer, diff, lens.name, warn);
+        review.notes[lens.name] = parsed.note;
+        comments.push(...parsed.comments);
+      } catch (error) {
+        // One failed call loses one note, not the review
+        const message = error instanceof Error ? error.message : String(error);
+        warn(`review: ${diff.path} (${lens.name}) failed: ${message}`);
+        review.notes[lens.name] = `Review failed: ${message}`;
+      }
+    }
+  }
+
+  const rank = (c: ReviewComment) => SEVERITIES.indexOf(c.severity);
+  comments.sort((a, b) => rank(a) - rank(b) || a.path.localeCompare(b.path) || a.line - b.line);
+  let summary = 'Nothing to review: no changed source file since the merge base.';
+  if (files.some(f => !f.skipped)) {
+    try {
+      summary = await callLLM(reviewSummaryPrompt(files, comments, lensNames), model, options.tracker?.meter('summary'));
+    } catch (error) {
+      // The per-file comments are already paid for: a failed summary must not lose them
+      const message = error instanceof Error ? error.message : String(error);
+      warn(`review: PR summary failed (${message}), listing the comments instead`);
+      summary = listSummary(files, comments, message);
+    }
+  }
+  return { base, mergeBase, lenses: lensNames, summary, files, comments };
+}
+
+const commentBody = (c: ReviewComment) =>
+  `**[${c.severity}] ${c.title}** (${c.lens})\n\n${c.body}${c.suggestion ? `\n\nSuggested fix: ${c.suggestion}` : ''}`;
+
+function filesTable(result: ReviewResult): string {
+  const count = (f: FileReview) => result.comments.filter(c => c.path === f.path).length;
+  const rows = result.files.map(f => `| \`${f.path}\` | ${changeLabel(f)}${f.skipped ? ` (not reviewed: ${f.skipped})` : ''} | ${count(f)} |`);
+  return ['| File | Change | Comments |', '|---|---|---|', ...rows].join('\n');
+}
+
+export function formatReviewMarkdown(result: ReviewResult): string {
+  const sections = [`## PR review (\`${result.base}\`, merge base ${result.mergeBase.slice(0, 12)})`, result.summary.trim(), filesTable(result)];
+  for (const file of result.files.filter(f => !f.skipped)) {
+    const notes = Object.entries(file.notes).map(([lens, note]) => `- *${lens}*: ${note.replace(/\s*\n\s*/g, ' ')}`);
+    const fileComments = result.comments.filter(c => c.path === file.path).map(c => {
+      const where = c.startLine ? `L${c.startLine}-${c.line}` : `L${c.line}`;
+      return `- **${where}** ${commentBody(c).replace(/\n\n/g, '\n  ')}`;
+    });
+    sections.push([`### \`${file.path}\``, ...notes, ...(fileComments.length ? ['', ...fileComments] : [])].join('\n'));
+  }
+  return `${sections.join('\n\n')}\n`;
+}
+
+// Payload of GitHub's "create a review for a pull request" endpoint (POST /repos/{owner}/{repo}/pulls/{n}/reviews)
+export function toGitHubReview(result: ReviewResult) {
+  return {
+    event: 'COMMENT',
+    body: `${result.summary.trim()}\n\n${filesTable(result)}`,
+    comments: result.comments.map(c => ({
+      path: c.path,
+      line: c.line,
+      side: 'RIGHT',
+      ...(c.startLine ? { start_line: c.startLine, start_side: 'RIGHT' } : {}),
+      body: commentBody(c),
+    })),
+  };
+}
@@ -0,0 +1,74 @@
+import path from 'path';
+import { collectFindings, type Finding, type Severity } from './findings.js';
+import type { PRRSSummaries } from './prrs.js';
+
+// SARIF 2.1.0 (the format code-scanning UIs ingest)
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const LEVELS: Record<Severity, 'error' | 'warning' | 'note'> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+  info: 'note',
+};
+
+// GitHub code scanning ranks security alerts by this CVSS-like score
+const SECURITY_SEVERITY: Record<Severity, string> = {
+  critical: '9.5',
+  high: '8.0',
+  medium: '5.5',
+  low: '3.0',
+  info: '0.0',
+};
+
+export interface SarifOptions {
+  root?: string;        // artifact URIs are relative to it (default: cwd)
+  toolVersion?: string;
+}
+
+function artifactUri(file: string, root: string): string {
+  const rel = path.relative(root, path.resolve(file));
+  return (rel && !rel.startsWith('..') ? rel : path.resolve(file)).split(path.sep).join('/');
+}
+
+export function toSarif(summaries: PRRSSummaries, options: SarifOptions = {}): object {
+  const root = path.resolve(options.root ?? '.');
+  const findings = collectFindings(summaries);
+
+  // One rule per finding id; the first finding seen describes it
+  const rules = new Map<string, Finding>();
+  findings.forEach(f => { if (!rules.has(f.id)) rules.set(f.id, f); });
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'prrs',
+          version: options.toolVersion ?? '1.0.0',
+          rules: [...rules.values()].map(f => ({
+            id: f.id,
+            shortDescription: { text: f.title },
+            properties: { 'security-severity': SECURITY_SEVERITY[f.severity], tags: [f.lens ?? 'prrs'] },
+          })),
+        },
+      },
+      originalUriBaseIds: { '%SRCROOT%': { uri: `file://${root.split(path.sep).join('/')}/` } },
+      results: findings.map(f => ({
+        ruleId: f.id,
+        level: LEVELS[f.severity],
+        message: { text: [f.title, f.rationale, f.fix && `Fix: ${f.fix}`].filter(Boolean).join('\n\n') },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: artifactUri(f.file, root), uriBaseId: '%SRCROOT%' },
+            region: { startLine: f.startLine, endLine: f.endLine },
+          },
+        }],
+        partialFingerprints: { primaryLocationLineHash: `${f.id}:${artifactUri(f.file, root)}:${f.startLine}` },
+        properties: { severity: f.severity, lens: f.lens, ...(f.fix ? { fix: f.fix } : {}) },
+      })),
+    }],
+  };
+}
@@ -0,0 +1,219 @@
+import { SEVERITIES } from './findings.js';
+import type { PRRSSummaries } from './prrs.js';
+
+// JSON Schemas (draft 2020-12) of what analyze() and `prrs --output json` produce.
+// summariesSchema: PRRSSummaries (lens → tree); outputSchema: `--output json` ({ version, usage, summaries });
+// resultSchema: the versioned analyze() envelope.
+// Printed by `prrs schema`. Bump RESULT_VERSION on any incompatible change to either.
+
+export const RESULT_VERSION = 1;
+
+const usage = {
+  type: 'object',
+  required: ['calls', 'inputTokens', 'outputTokens', 'totalTokens'],
+  properties: {
+    calls: { type: 'integer', minimum: 0 },
+    inputTokens: { type: 'integer', minimum: 0 },
+    outputTokens: { type: 'integer', minimum: 0 },
+    totalTokens: { type: 'integer', minimum: 0 },
+    cost: { type: 'number', minimum: 0, description: 'USD' },
+  },
+};
+
+const defs = {
+  node: {
+    type: 'object',
+    description: 'A file, folder or symbol summary (static placeholders have no path/type)',
+    required: ['summary', 'children'],
+    properties: {
+      summary: { type: 'string', description: "Empty when status is 'error' or 'skipped'" },
+      children: { type: 'array', items: { $ref: '#/$defs/node' } },
+      path: { type: 'string', description: 'Relative to the working directory of the run; symbols: <file>#<name>' },
+      type: { enum: ['file', 'folder', 'symbol'] },
+      status: { enum: ['ok', 'error', 'skipped'] },
+      error: { type: 'string' },
+      metadata: { $ref: '#/$defs/metadata' },
+      findings: { type: 'array', items: { $ref: '#/$defs/finding' } },
+      usage: { $ref: '#/$defs/usage' },
+      symbol: { $ref: '#/$defs/symbol' },
+    },
+  },
+  metadata: {
+    type: 'object',
+    properties: {
+      exports: { type: 'array', items: { $ref: '#/$defs/declaration' } },
+      declarations: { type: 'array', items: { $ref: '#/$defs/declaration' }, description: 'Top-level declarations that are not exported' },
+      imports: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['from', 'names'],
+          properties: { from: { type: 'string' }, names: { type: 'array', items: { type: 'string' } }, typeOnly: { type: 'boolean' } },
+        },
+      },
+      dependencies: { type: 'array', items: { type: 'string' } },
+      complexity: { type: 'number' },
+      linesOfCode: { type: 'integer' },
+      fileCount: { type: 'integer' },
+      maxComplexity: { type: 'number' },
+      avgComplexity: { type: 'number' },
+    },
+  },
+  declaration: {
+    type: 'object',
+    required: ['name', 'type', 'signature', 'location'],
+    properties: {
+      name: { type: 'string' },
+      type: { enum: ['function', 'class', 'interface', 'type', 'const'] },
+      signature: { type: 'string' },
+      location: {
+        type: 'object',
+        required: ['line', 'column'],
+        properties: { line: { type: 'integer' }, column: { type: 'integer' }, endLine: { type: 'integer' } },
+      },
+    },
+  },
+  finding: {
+    type: 'object',
+    required: ['id', 'severity', 'title', 'file', 'startLine', 'endLine', 'rationale'],
+    properties: {
+      id: { type: 'string' },
+      severity: { enum: SEVERITIES },
+      title: { type: 'string' },
+      file: { type: 'string' },
+      startLine: { type: 'integer', minimum: 1 },
+      endLine: { type: 'integer', minimum: 1 },
+      rationale: { type: 'string' },
+      fix: { type: 'string' },
+      lens: { type: 'string' },
+    },
+  },
+  symbol: {
+    type: 'object',
+    required: ['name', 'kind', 'signature', 'startLine', 'endLine'],
+    properties: {
+      name: { type: 'string' },
+      kind: { enum: ['function', 'class', 'interface', 'type', 'const'] },
+      signature: { type: 'string' },
+      startLine: { type: 'integer', minimum: 1 },
+      endLine: { type: 'integer', minimum: 1 },
+    },
+  },
+  usage,
+  usageReport: {
+    type: 'object',
+    required: [...usage.required, 'model', 'byLens'],
+    properties: {
+      ...usage.properties,
+      model: { type: 'string' },
+      pricing: { type: 'object', properties: { prompt: { type: 'number' }, completion: { type: 'number' } } },
+      byLens: { type: 'object', additionalProperties: { $ref: '#/$defs/usage' } },
+      budget: {
+        type: 'object',
+        properties: {
+          maxCost: { type: 'number' },
+          maxTokens: { type: 'integer' },
+          exhausted: { type: 'boolean' },
+          skippedNodes: { type: 'integer' },
+        },
+      },
+    },
+  },
+  summaries: {
+    type: 'object',
+    description: 'One summary tree per lens',
+    additionalProperties: { $ref: '#/$defs/node' },
+  },
+};
+
+export const summariesSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: `urn:prrs:summaries:v${RESULT_VERSION}`,
+  title: 'PRRSSummaries',
+  description: 'One summary tree per lens',
+  type: 'object',
+  additionalProperties: { $ref: '#/$defs/node' },
+  $defs: defs,
+};
+
+export const outputSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: `urn:prrs:output:v${RESULT_VERSION}`,
+  title: 'PRRSOutput',
+  description: '`prrs --output json`: the run usage and the lens trees, versioned like the analyze() envelope',
+  type: 'object',
+  required: ['version', 'summaries'],
+  properties: {
+    version: { const: RESULT_VERSION },
+    usage: { $ref: '#/$defs/usageReport' },
+    summaries: { $ref: '#/$defs/summaries' },
+  },
+  $defs: defs,
+};
+
+export const resultSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: `urn:prrs:result:v${RESULT_VERSION}`,
+  title: 'AnalysisResult',
+  description: 'Envelope returned by analyze(): provenance + summaries',
+  type: 'object',
+  required: ['version', 'generator', 'createdAt', 'root', 'model', 'lenses', 'options', 'usage', 'summaries'],
+  properties: {
+    version: { const: RESULT_VERSION },
+    generator: {
+      type: 'object',
+      required: ['name', 'version'],
+      properties: { name: { const: 'prrs' }, version: { type: 'string' } },
+    },
+    createdAt: { type: 'string', format: 'date-time' },
+    root: { type: 'string', description: 'Absolute path of the analyzed folder' },
+    model: {
+      type: 'object',
+      required: ['key'],
+      properties: { key: { type: 'string' }, provider: { type: 'string' }, modelId: { type: 'string' }, injected: { type: 'boolean' } },
+    },
+    repo: {
+      type: 'object',
+      description: 'Absent outside a git repository',
+      required: ['commit', 'dirty'],
+      properties: { commit: { type: 'string' }, branch: { type: 'string' }, dirty: { type: 'boolean' } },
+    },
+    lenses: {
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        required: ['fingerprint', 'definition'],
+        properties: { fingerprint: { type: 'string' }, definition: { type: 'object' } },
+      },
+    },
+    options: {
+      type: 'object',
+      required: ['depth', 'maxChunkChars'],
+      properties: {
+        depth: { type: 'integer' },
+        maxChunkChars: { type: 'integer' },
+        symbols: { type: 'boolean' },
+        metadata: { type: 'boolean' },
+        singlePass: { type: 'boolean' },
+        include: { type: 'array', items: { type: 'string' } },
+        exclude: { type: 'array', items: { type: 'string' } },
+        hooks: { type: 'array', items: { enum: ['prompt', 'node'] } },
+      },
+    },
+    usage: { $ref: '#/$defs/usageReport' },
+    summaries: { $ref: '#/$defs/summaries' },
+  },
+  $defs: defs,
+};
+
+// Lens trees of a parsed result: an analyze() envelope, a `--output json` result or a bare lens map (non-tree keys dropped)
+export function summariesOf(raw: any): PRRSSummaries {
+  const source = raw && typeof raw === 'object' && raw.version !== undefined && raw.summaries ? raw.summaries : raw;
+  const trees: PRRSSummaries = {};
+  if (source && typeof source === 'object') {
+    for (const [lens, node] of Object.entries<any>(source)) {
+      if (node && typeof node === 'object' && typeof node.summary === 'string' && Array.isArray(node.children)) trees[lens] = node;
+    }
+  }
+  return trees;
+}
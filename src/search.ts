@@ -0,0 +1,182 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { splitFileIntoChunks } from './chunkers.js';
+import { listFiles, type FileFilter } from './file-filter.js';
+import { DEFAULT_CACHE_DIR } from './cache.js';
+import { tokenize } from './tokenize.js';
+import type { PRRSSummaries, SummaryNode } from './prrs.js';
+
+// prrs index / prrs search: offline BM25 over every chunk of the analyzed files and every node
+// summary of a previous result. No model, no network: summaries add the vocabulary ("rate limiting",
+// "token refresh") that the code itself may not use.
+
+export const DEFAULT_INDEX_FILE = path.join(DEFAULT_CACHE_DIR, 'search-index.json');
+const INDEX_VERSION = 1;
+
+// BM25 parameters (usual defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+export interface SearchDoc {
+  kind: 'chunk' | 'summary';
+  path: string;           // relative to the directory the index was built from
+  lens?: string;          // summary docs
+  startLine?: number;     // chunks and symbols
+  endLine?: number;
+  text: string;
+  tf: Record<string, number>;
+  length: number;         // token count
+}
+
+export interface SearchIndex {
+  version: number;
+  createdAt: string;
+  root: string;
+  docs: SearchDoc[];
+  df: Record<string, number>;
+  avgLength: number;
+  summaries: Record<string, Record<string, string>>;  // path → lens → summary, shown next to hits
+}
+
+export interface SearchHit {
+  score: number;
+  kind: SearchDoc['kind'];
+  path: string;
+  lens?: string;
+  startLine?: number;
+  endLine?: number;
+  summary?: string;       // the file's summary for the hit's lens (first lens when the hit is a chunk)
+  snippet: string;
+}
+
+export interface IndexOptions {
+  filter: FileFilter;
+  maxDepth?: number;
+  maxChunkChars?: number;
+  summaries?: PRRSSummaries;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  kind?: SearchDoc['kind'];
+  lens?: string;
+}
+
+// Paths as the user typed them in the run (relative to cwd); symbols keep their "#name"
+const relPath = (p: string) => {
+  const [file, symbol] = p.split('#');
+  const rel = path.relative(process.cwd(), path.resolve(file)) || '.';
+  return symbol ? `${rel}#${symbol}` : rel;
+};
+
+function makeDoc(doc: Omit<SearchDoc, 'tf' | 'length'>): SearchDoc {
+  // The path takes part in matching: file and folder names are strong hints
+  const tokens = tokenize(`${doc.path} ${doc.text}`);
+  const tf: Record<string, number> = {};
+  for (const token of tokens) tf[token] = (tf[token] ?? 0) + 1;
+  return { ...doc, tf, length: tokens.length };
+}
+
+export async function buildSearchIndex(folderPath: string, options: IndexOptions): Promise<SearchIndex> {
+  const docs: SearchDoc[] = [];
+  for (const file of await listFiles(folderPath, options.filter, options.maxDepth)) {
+    const content = await fs.readFile(file, 'utf8');
+    for (const chunk of splitFileIntoChunks(content, file, 10, options.maxChunkChars ?? 4000)) {
+      docs.push(makeDoc({ kind: 'chunk', path: relPath(file), startLine: chunk.startLine, endLine: chunk.endLine, text: chunk.text }));
+    }
+  }
+
+  const summaries: SearchIndex['summaries'] = {};
+  const walk = (node: SummaryNode, lens: string) => {
+    if (node.path && node.summary && (!node.status || node.status === 'ok')) {
+      const nodePath = relPath(node.path);
+      (summaries[nodePath] ??= {})[lens] = node.summary;
+      const lines = node.symbol ? { startLine: node.symbol.startLine, endLine: node.symbol.endLine } : {};
+      docs.push(makeDoc({ kind: 'summary', path: nodePath, lens, ...lines, text: node.summary }));
+    }
+    node.children.forEach(child => walk(child, lens));
+  };
+  Object.entries(options.summaries ?? {}).forEach(([lens, root]) => walk(root, lens));
+
+  const df: Record<string, number> = {};
+  docs.forEach(doc => Object.keys(doc.tf).forEach(term => { df[term] = (df[term] ?? 0) + 1; }));
+  const avgLength = docs.length ? docs.reduce((n, doc) => n + doc.length, 0) / docs.length : 0;
+  return { version: INDEX_VERSION, createdAt: new Date().toISOString(), root: relPath(folderPath), docs, df, avgLength, summaries };
+}
+
+export async function saveSearchIndex(index: SearchIndex, file = DEFAULT_INDEX_FILE): Promise<void> {
+  await fs.outputJson(file, index);
+}
+
+export async function loadSearchIndex(file = DEFAULT_INDEX_FILE): Promise<SearchIndex> {
+  if (!fs.existsSync(file)) throw new Error(`No search index at ${file}: build it with \`prrs index\``);
+  const index: SearchIndex = await fs.readJson(file);
+  if (index.version !== INDEX_VERSION) throw new Error(`${file}: index format ${index.version} is outdated, rebuild it with \`prrs index\``);
+  return index;
+}
+
+// The line of the doc with the most query terms, cut to ~160 chars
+function snippet(text: string, terms: Set<string>): string {
+  const lines = text.split('\n').filter(line => line.trim());
+  let best = lines[0] ?? '';
+  let bestScore = -1;
+  for (const line of lines) {
+    const score = tokenize(line).filter(token => terms.has(token)).length;
+    if (score > bestScore) [best, bestScore] = [line, score];
+  }
+  const flat = best.trim().replace(/\s+/g, ' ');
+  return flat.length > 160 ? `${flat.slice(0, 160)}…` : flat;
+}
+
+export function searchIndex(index: SearchIndex, query: string, options: SearchOptions = {}): SearchHit[] {
+  const terms = [...new Set(tokenize(query))];
+  if (!terms.length) return [];
+  const n = index.docs.length;
+  const idf = (term: string) => {
+    const df = index.df[term] ?? 0;
+    return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+  };
+
+  const scored: Array<{ doc: SearchDoc; score: number }> = [];
+  for (const doc of index.docs) {
+    if (options.kind && doc.kind !== options.kind) continue;
+    if (options.lens && doc.kind === 'summary' && doc.lens !== options.lens) continue;
+    let score = 0;
+    for (const term of terms) {
+      const tf = doc.tf[term];
+      if (!tf) continue;
+      score += idf(term) * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / (index.avgLength || 1)));
+    }
+    if (score > 0) scored.push({ doc, score });
+  }
+
+  const termSet = new Set(terms);
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? 10)
+    .map(({ doc, score }) => {
+      const fileSummaries = index.summaries[doc.path.split('#')[0]] ?? {};
+      const lens = doc.lens ?? (options.lens && fileSummaries[options.lens] ? options.lens : Object.keys(fileSummaries)[0]);
+      const summary = doc.kind === 'chunk' && lens ? fileSummaries[lens] : undefined;
+      return {
+        score: Math.round(score * 1000) / 1000,
+        kind: doc.kind,
+        path: doc.path,
+        ...(lens ? { lens } : {}),
+        ...(doc.startLine !== undefined ? { startLine: doc.startLine, endLine: doc.endLine } : {}),
+        ...(summary ? { summary } : {}),
+        snippet: snippet(doc.text, termSet),
+      };
+    });
+}
+
+export function formatHits(hits: SearchHit[]): string {
+  if (!hits.length) return 'No match.';
+  return hits.map((hit, i) => {
+    const lines = hit.startLine !== undefined ? `:${hit.startLine}-${hit.endLine}` : '';
+    const label = hit.kind === 'summary' ? `${hit.lens} summary` : 'code';
+    const out = [`${i + 1}. ${hit.path}${lines}  (${label}, score ${hit.score})`, `   ${hit.snippet}`];
+    if (hit.summary) out.push(`   ↳ ${hit.lens}: ${hit.summary.replace(/\s+/g, ' ').slice(0, 160)}${hit.summary.length > 160 ? '…' : ''}`);
+    return out.join('\n');
+  }).join('\n');
+}
@@ -0,0 +1,39 @@
+import type { Declaration, Metadata } from './metadata.js';
+
+// Symbol-level nodes (--symbols): the significant exported declarations of a file,
+// taken from its metadata, each summarized on its own under the file node.
+
+export interface SymbolInfo {
+  name: string;
+  kind: Declaration['type'];
+  signature: string;
+  startLine: number;   // 1-based, inclusive
+  endLine: number;
+}
+
+export const MIN_SYMBOL_LINES = 3;     // one-liners (re-exports, constants) are not worth a call
+export const MAX_SYMBOLS_PER_FILE = 8; // largest ones first, then back in file order
+
+export function selectSymbols(metadata?: Metadata): SymbolInfo[] {
+  const symbols = (metadata?.exports ?? [])
+    .filter(e => e.location.endLine !== undefined)
+    .map(e => ({ name: e.name, kind: e.type, signature: e.signature, startLine: e.location.line, endLine: e.location.endLine! }))
+    .filter(s => s.endLine - s.startLine + 1 >= MIN_SYMBOL_LINES);
+  // Destructured / multi-declarator consts share a statement: keep the first name
+  const unique = symbols.filter((s, i) => symbols.findIndex(o => o.startLine === s.startLine) === i);
+  return unique
+    .sort((a, b) => (b.endLine - b.startLine) - (a.endLine - a.startLine))
+    .slice(0, MAX_SYMBOLS_PER_FILE)
+    .sort((a, b) => a.startLine - b.startLine);
+}
+
+// Source of a symbol, cut to maxChars
+export function symbolSource(content: string, symbol: SymbolInfo, maxChars: number): string {
+  const text = content.split('\n').slice(symbol.startLine - 1, symbol.endLine).join('\n');
+  return text.length > maxChars ? `${text.slice(0, maxChars)}\n… (truncated)` : text;
+}
+
+// Node path of a symbol: unique per file, so reports and incremental mode can key on it
+export function symbolPath(filePath: string, symbol: Pick<SymbolInfo, 'name'>): string {
+  return `${filePath}#${symbol.name}`;
+}
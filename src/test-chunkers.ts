@@ -0,0 +1,81 @@
+// src/test-chunkers.ts : line anchors of the chunks, per registered chunker — `npm test`
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { splitFileIntoChunks, getChunker, type Chunk } from './chunkers.js';
+
+const ranges = (chunks: Chunk[]) => chunks.map(c => [c.startLine, c.endLine]);
+
+// Every chunk is exactly the file lines it claims (what findings and review comments are anchored on);
+// size-based pieces of an oversized unit come trimmed
+function assertAnchored(content: string, chunks: Chunk[], trimmed = false) {
+  const lines = content.split('\n');
+  for (const chunk of chunks) {
+    const text = lines.slice(chunk.startLine - 1, chunk.endLine).join('\n');
+    assert.equal(chunk.text, trimmed ? text.trim() : text.trimEnd(), `lines ${chunk.startLine}-${chunk.endLine}`);
+  }
+}
+
+const fixtures: Array<{ file: string; chunker: string; content: string; expected: number[][] }> = [
+  {
+    file: 'service.py',
+    chunker: 'python',
+    content: 'import os\n\n\n@cache\n@other\ndef load(path):\n    return open(path)\n\n# The service\nclass Service:\n    def run(self):\n        pass\n\nMAX = 3\n',
+    expected: [[1, 1], [4, 7], [9, 12], [14, 14]],   // decorators and comments stay with their definition
+  },
+  {
+    file: 'main.go',
+    chunker: 'brace',
+    content: 'package main\n\nimport "fmt"\n\n// Greet says hello\nfunc Greet(name string) {\n\tfmt.Println(name)\n}\n\ntype User struct {\n\tName string\n}\n',
+    expected: [[1, 3], [5, 8], [10, 12]],   // one-line declarations are merged
+  },
+  {
+    file: 'main.rs',
+    chunker: 'brace',
+    content: 'use std::io;\n\n#[derive(Debug)]\nstruct Point {\n    x: i32,\n}\n\nfn main() {\n    let p = Point { x: 1 };\n}\n',
+    expected: [[1, 1], [3, 6], [8, 10]],
+  },
+  {
+    file: 'package.json',
+    chunker: 'json',
+    content: '{\n  "name": "x",\n  "scripts": {\n    "build": "tsc"\n  },\n  "deps": [\n    "a"\n  ]\n}\n',
+    expected: [[1, 2], [3, 5], [6, 9]],
+  },
+  {
+    file: 'README.md',
+    chunker: 'markdown',
+    content: '# Title\n\nIntro.\n\n## Install\n\n```sh\n# not a heading\nnpm i\n```\n\n## Usage\nRun it.\n',
+    expected: [[1, 3], [5, 10], [12, 13]],   // "#" inside a fenced block is not a heading
+  },
+  {
+    file: 'ci.yaml',
+    chunker: 'yaml',
+    content: '# config\nname: x\nsteps:\n  - run: a\n  - run: b\n\nenv:\n  A: 1\n',
+    expected: [[1, 2], [3, 5], [7, 8]],
+  },
+];
+
+for (const { file, chunker, content, expected } of fixtures) {
+  test(`${chunker} chunks of ${file} keep their line anchors`, () => {
+    assert.equal(getChunker(file).name, chunker);
+    const chunks = splitFileIntoChunks(content, file);
+    assert.deepEqual(ranges(chunks), expected);
+    assertAnchored(content, chunks);
+  });
+}
+
+test('oversized units are split into contiguous, anchored pieces', () => {
+  const body = Array.from({ length: 40 }, (_, i) => `    total += ${i}  # step ${i}`).join('\n');
+  const content = `import os\n\ndef long():\n    total = 0\n${body}\n    return total\n`;
+  const chunks = splitFileIntoChunks(content, 'long.py', 10, 300);
+  assert.ok(chunks.length > 2);
+  assertAnchored(content, chunks, true);
+  assert.equal(chunks[chunks.length - 1].endLine, content.split('\n').length - 1);
+  chunks.slice(1).forEach((chunk, i) => assert.ok(chunk.startLine > chunks[i].endLine, 'pieces do not overlap'));
+});
+
+test('grouped chunks (above maxChunks) span their whole buckets', () => {
+  const content = Array.from({ length: 12 }, (_, i) => `fn f${i}() {\n    ${i}\n}\n`).join('\n');
+  const chunks = splitFileIntoChunks(content, 'many.rs', 4);
+  assert.deepEqual(ranges(chunks), [[1, 11], [13, 23], [25, 35], [37, 47]]);
+  assertAnchored(content, chunks);
+});
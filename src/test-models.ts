@@ -1,9 +1,9 @@
  // src/test-models.ts
-   import { modelMap } from './models.js';
+   import { resolveModel } from './models.js';
    import { generateText } from 'ai';
 
-  // Use a model key that exists in `modelMap` (typo corrected: 'grok-reasoning')
-  const llm = modelMap['g4f-reasoning' as keyof typeof modelMap];
+  // Use a model key that exists in `modelMap` (resolved lazily through its provider)
+  const llm = resolveModel('g4f-reasoning');
    async function test() {
      try {
        const { text } = await generateText({ model: llm, prompt: 'Hello Grok!' });
@@ -0,0 +1,82 @@
+// src/test-ranking.ts : parsing of the model answers (rankings, FINDINGS) — `npm test`
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseRankingResponse, validateRanking, normalizeRanking, parseMultiRanking } from './ranking.js';
+import { parseFindings } from './findings.js';
+import type { Chunk } from './chunkers.js';
+
+const chunks: Chunk[] = [
+  { text: 'import x from "y";', startLine: 1, endLine: 3 },
+  { text: 'function a() {}', startLine: 10, endLine: 19 },
+];
+
+test('parseRankingResponse reads bare, fenced and embedded arrays', () => {
+  assert.deepEqual(parseRankingResponse('[{"index":0}]'), [{ index: 0 }]);
+  assert.deepEqual(parseRankingResponse('```json\n[1, 2]\n```'), [1, 2]);
+  assert.deepEqual(parseRankingResponse('Here it is: [3] as asked'), [3]);
+  assert.throws(() => parseRankingResponse('no JSON here'), /not valid JSON/);
+});
+
+test('validateRanking reports every schema violation', () => {
+  assert.deepEqual(validateRanking([{ index: 0, score: 9, reason: 'a' }, { index: 1, score: 3, reason: 'b' }], 2), []);
+  assert.deepEqual(validateRanking({ index: 0 }, 1), ['the answer must be a JSON array']);
+  const errors = validateRanking([{ index: 0, score: 11, reason: 'a' }, { index: 0, score: 5 }, 'x'], 3);
+  assert.ok(errors.some(e => e.includes('"score" must be a number between 1 and 10')));
+  assert.ok(errors.some(e => e.includes('index 0 is ranked more than once')));
+  assert.ok(errors.some(e => e.includes('"reason" must be a string')));
+  assert.ok(errors.includes('item 2 must be an object'));
+  assert.ok(errors.includes('missing indices: 1, 2'));
+});
+
+test('normalizeRanking dedupes, clamps, completes and sorts', () => {
+  const ranking = normalizeRanking([
+    { index: 2, score: 42, reason: 'core' },
+    { index: 2, score: 1, reason: 'duplicate' },
+    { index: 7, score: 5, reason: 'out of range' },
+    { index: 0, score: 4 },
+  ], 3);
+  assert.deepEqual(ranking, [
+    { index: 2, score: 10, reason: 'core' },
+    { index: 0, score: 4, reason: 'No reason provided' },
+    { index: 1, score: 1, reason: 'Not ranked by the model' },
+  ]);
+  assert.equal(normalizeRanking([{ index: 9, score: 5 }], 3), undefined);
+  assert.equal(normalizeRanking('nope', 3), undefined);
+});
+
+test('parseMultiRanking keeps the valid lens parts only', () => {
+  const parts = parseMultiRanking(JSON.stringify({
+    architecture: [{ index: 1, score: 8, reason: 'a' }, { index: 0, score: 2, reason: 'b' }],
+    security: [{ index: 0, score: 8, reason: 'a' }],   // index 1 missing
+  }), ['architecture', 'security', 'performance'], 2);
+  assert.deepEqual(parts.architecture?.map(e => e.index), [1, 0]);
+  assert.equal(parts.security, undefined);
+  assert.equal(parts.performance, undefined);
+});
+
+test('parseFindings maps chunk-relative lines to file lines', () => {
+  const response = `The file summary.
+FINDINGS: [
+  {"id": "Hard Coded Secret", "severity": "HIGH", "title": "Secret", "chunk": 1, "startLine": 3, "endLine": 4, "rationale": "r"},
+  {"severity": "weird", "title": "Clamped", "chunk": 1, "startLine": 50, "endLine": 2},
+  {"title": "Unknown chunk", "chunk": 9, "startLine": 2},
+  {"title": "   "}
+]`;
+  const { summary, findings } = parseFindings(response, chunks, 'src/a.ts', () => assert.fail('no warning expected'));
+  assert.equal(summary, 'The file summary.');
+  assert.equal(findings.length, 3);
+  assert.deepEqual(findings[0], { id: 'hard-coded-secret', severity: 'high', title: 'Secret', file: 'src/a.ts', startLine: 12, endLine: 13, rationale: 'r' });
+  // Lines past the chunk are clamped to its last line, and the end never precedes the start
+  assert.deepEqual([findings[1].severity, findings[1].startLine, findings[1].endLine], ['medium', 19, 19]);
+  // An unknown chunk falls back to the first one
+  assert.deepEqual([findings[2].startLine, findings[2].endLine], [2, 2]);
+});
+
+test('parseFindings keeps the summary when the FINDINGS block is bad JSON', () => {
+  const warnings: string[] = [];
+  const result = parseFindings('Summary only.\nFINDINGS: [{"title": "x",]', chunks, 'src/a.ts', message => warnings.push(message));
+  assert.deepEqual(result, { summary: 'Summary only.', findings: [] });
+  assert.equal(warnings.length, 1);
+  assert.match(warnings[0], /Unparseable FINDINGS block for src\/a\.ts/);
+  assert.deepEqual(parseFindings('No block at all', chunks, 'src/a.ts'), { summary: 'No block at all', findings: [] });
+});
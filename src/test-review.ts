@@ -0,0 +1,111 @@
+// src/test-review.ts : diff parsing and comment anchoring of prrs review — `npm test`
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseUnifiedDiff, parseReviewComments } from './review.js';
+
+const DIFF = `diff --git a/src/old name.ts b/src/new name.ts
+similarity index 80%
+rename from src/old name.ts
+rename to src/new name.ts
+index 1111111..2222222 100644
+--- a/src/old name.ts
++++ b/src/new name.ts
+@@ -1,4 +1,5 @@ export function area(r: number) {
+ const PI = 3.14;
+-export const old = 1;
++export const renamed = 1;
++export const added = 2;
+ export function area(r: number) {
+   return PI * r * r;
+diff --git a/src/pure.ts b/src/moved/pure.ts
+similarity index 100%
+rename from src/pure.ts
+rename to src/moved/pure.ts
+diff --git a/src/gone.ts b/src/gone.ts
+deleted file mode 100644
+index 3333333..0000000
+--- a/src/gone.ts
++++ /dev/null
+@@ -1,2 +0,0 @@
+-export const gone = true;
+--- a comment that looks like a header
+diff --git a/src/tail.ts b/src/tail.ts
+index 4444444..5555555 100644
+--- a/src/tail.ts
++++ b/src/tail.ts
+@@ -8,3 +8,3 @@ function run() {
+   step();
+   done();
+-}
+\\ No newline at end of file
++}
+diff --git a/assets/logo.png b/assets/logo.png
+new file mode 100644
+index 0000000..6666666
+Binary files /dev/null and b/assets/logo.png differ
+`;
+
+test('parseUnifiedDiff reads renames, deletions, binaries and numbers the lines', () => {
+  const files = parseUnifiedDiff(DIFF);
+  assert.deepEqual(files.map(f => [f.path, f.status, f.oldPath, f.binary]), [
+    ['src/new name.ts', 'renamed', 'src/old name.ts', false],
+    ['src/moved/pure.ts', 'renamed', 'src/pure.ts', false],
+    ['src/gone.ts', 'deleted', undefined, false],
+    ['src/tail.ts', 'modified', undefined, false],
+    ['assets/logo.png', 'added', undefined, true],
+  ]);
+
+  const [renamed, pure, deleted, tail] = files;
+  assert.equal(renamed.hunks[0].header, 'export function area(r: number) {');
+  assert.deepEqual(renamed.hunks[0].lines.map(l => [l.kind, l.oldLine, l.newLine]), [
+    ['context', 1, 1],
+    ['del', 2, undefined],
+    ['add', undefined, 2],
+    ['add', undefined, 3],
+    ['context', 3, 4],
+    ['context', 4, 5],
+  ]);
+  assert.equal(pure.hunks.length, 0);
+  // A deleted line starting with "--" is content, not a file header
+  assert.deepEqual(deleted.hunks[0].lines.map(l => [l.kind, l.text]), [
+    ['del', 'export const gone = true;'],
+    ['del', '-- a comment that looks like a header'],
+  ]);
+  // "\ No newline at end of file" is not a line of the file
+  assert.deepEqual(tail.hunks[0].lines.map(l => [l.kind, l.text, l.oldLine, l.newLine]), [
+    ['context', '  step();', 8, 8],
+    ['context', '  done();', 9, 9],
+    ['del', '}', 10, undefined],
+    ['add', '}', undefined, 10],
+  ]);
+});
+
+test('parseReviewComments snaps lines outside the diff to the closest added line', () => {
+  const [file] = parseUnifiedDiff(DIFF);   // added lines 2-3, context lines 1, 4, 5
+  const response = `Renames the constant.
+COMMENTS: [
+  {"line": 3, "severity": "HIGH", "title": "On an added line"},
+  {"line": 5, "severity": "low", "title": "On a context line"},
+  {"line": 40, "title": "Far below the diff"},
+  {"line": 1, "endLine": 9, "severity": "odd", "title": "Range", "body": " b ", "suggestion": "x"},
+  {"title": ""}
+]`;
+  const { note, comments } = parseReviewComments(response, file, 'architecture', () => assert.fail('no warning expected'));
+  assert.equal(note, 'Renames the constant.');
+  assert.deepEqual(comments.map(c => [c.line, c.startLine, c.severity, c.title]), [
+    [3, undefined, 'high', 'On an added line'],
+    [5, undefined, 'low', 'On a context line'],
+    [3, undefined, 'medium', 'Far below the diff'],
+    [3, 1, 'medium', 'Range'],
+  ]);
+  assert.deepEqual([comments[3].path, comments[3].lens, comments[3].body, comments[3].suggestion], ['src/new name.ts', 'architecture', 'b', 'x']);
+});
+
+test('parseReviewComments keeps the note when the COMMENTS block is bad JSON or the file has no hunk', () => {
+  const files = parseUnifiedDiff(DIFF);
+  const warnings: string[] = [];
+  assert.deepEqual(parseReviewComments('Note.\nCOMMENTS: [{"line": 2,]', files[0], 'security', message => warnings.push(message)), { note: 'Note.', comments: [] });
+  assert.equal(warnings.length, 1);
+  assert.match(warnings[0], /Unparseable COMMENTS block for src\/new name\.ts \(security\)/);
+  assert.deepEqual(parseReviewComments('Moved.\nCOMMENTS: [{"line": 1, "title": "t"}]', files[1], 'security').comments, []);
+});
@@ -0,0 +1,49 @@
+// src/test-single-pass.ts : single-pass vs per-lens runs on the mock provider — `npm test`
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { analyze } from './analyze.js';
+import type { SummaryNode } from './prrs.js';
+
+const LENSES = ['architecture', 'performance', 'security'];
+
+// Two files of several chunks each, so that every file is ranked
+function fixture(): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'prrs-single-pass-'));
+  const body = (name: string) => Array.from({ length: 6 }, (_, i) =>
+    `export function ${name}${i}(values: number[]): number {\n  let total = 0;\n  for (const v of values) total += v * ${i};\n  return total;\n}\n`).join('\n');
+  fs.writeFileSync(path.join(root, 'a.ts'), body('alpha'));
+  fs.mkdirSync(path.join(root, 'lib'));
+  fs.writeFileSync(path.join(root, 'lib', 'b.ts'), body('beta'));
+  return root;
+}
+
+function shape(node: SummaryNode): unknown {
+  return { path: node.path, type: node.type, status: node.status, children: node.children.map(shape) };
+}
+
+test('a single-pass run builds the per-lens trees with fewer calls', async () => {
+  const root = fixture();
+  try {
+    const options = { path: root, lenses: LENSES, model: 'mock', depth: 3, maxChunkChars: 200, cache: false, metadata: false };
+    const perLens = await analyze(options);
+    const singlePass = await analyze({ ...options, singlePass: true });
+
+    for (const lens of LENSES) assert.deepEqual(shape(singlePass.summaries[lens]), shape(perLens.summaries[lens]));
+    // One combined ranking call per file instead of one per lens and file
+    const files = 2;
+    assert.equal(perLens.usage.calls - singlePass.usage.calls, files * (LENSES.length - 1));
+
+    // The combined call is split between the lenses it served: counted once, tokens summing to the run's
+    const byLens = Object.values(singlePass.usage.byLens);
+    assert.equal(byLens.reduce((sum, u) => sum + u.calls, 0), singlePass.usage.calls);
+    assert.equal(byLens.reduce((sum, u) => sum + u.totalTokens, 0), singlePass.usage.totalTokens);
+    const [first, ...others] = LENSES.map(lens => singlePass.usage.byLens[lens].calls);
+    for (const calls of others) assert.equal(first - calls, files);
+    for (const lens of LENSES.slice(1)) assert.equal(singlePass.usage.byLens[lens].calls, perLens.usage.byLens[lens].calls - files);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
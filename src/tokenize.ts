@@ -0,0 +1,24 @@
+// Word-level tokens shared by the offline relevance heuristics (prrs ask fallback, search index).
+// Identifiers are split on camelCase / snake_case so "refreshToken" matches "token refresh".
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'with', 'this', 'that', 'from', 'into', 'its', 'his', 'her', 'their',
+  'where', 'what', 'which', 'when', 'who', 'how', 'why', 'does', 'did', 'done', 'has', 'have', 'had',
+  'can', 'could', 'should', 'would', 'will', 'not', 'but', 'all', 'any', 'each', 'there', 'here', 'than',
+  'then', 'them', 'they', 'these', 'those', 'our', 'you', 'your', 'use', 'used', 'uses', 'via', 'also',
+]);
+
+export function tokenize(text: string): string[] {
+  const words = text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .match(/[a-z0-9]+/g) ?? [];
+  return words.filter(word => word.length > 2 && !STOP_WORDS.has(word) && !/^\d+$/.test(word));
+}
+
+// Distinct query terms found in the text (cheap relevance when no model or index is available)
+export function overlapScore(query: string, text: string): number {
+  const terms = new Set(tokenize(text));
+  return new Set(tokenize(query).filter(term => terms.has(term))).size;
+}
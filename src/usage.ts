@@ -0,0 +1,161 @@
+import fs from 'fs-extra';
+import type { Endpoint } from './models.js';
+
+// Token usage of one or more LLM calls; cost in USD when the model's pricing is known
+export interface TokenUsage {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost?: number;
+}
+
+// USD per token, as OpenRouter's Endpoint.pricing ("prompt"/"completion", strings or numbers)
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
+}
+
+export type PriceTable = Record<string, ModelPricing>;
+
+export interface Budget {
+  maxCost?: number;    // USD
+  maxTokens?: number;  // input + output tokens over the whole run
+}
+
+// What a run spent, in the final JSON under "usage"
+export interface UsageReport extends TokenUsage {
+  model: string;
+  pricing?: ModelPricing;
+  byLens: Record<string, TokenUsage>;
+  budget?: Budget & { exhausted: boolean; skippedNodes: number };
+}
+
+export const DEFAULT_PRICES_FILE = 'prrs.prices.json';
+
+export function emptyUsage(): TokenUsage {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+}
+
+// Sum usages into `target` (costs only add up when known)
+export function addUsage(target: TokenUsage, usage: TokenUsage): TokenUsage {
+  target.calls += usage.calls;
+  target.inputTokens += usage.inputTokens;
+  target.outputTokens += usage.outputTokens;
+  target.totalTokens += usage.totalTokens;
+  if (usage.cost !== undefined) target.cost = roundCost((target.cost ?? 0) + usage.cost);
+  return target;
+}
+
+const roundCost = (usd: number) => Math.round(usd * 1e8) / 1e8;
+
+// Token counts of one call as reported by the AI SDK (fields may be missing with some providers)
+export type CallTokens = { inputTokens?: number; outputTokens?: number; totalTokens?: number } | undefined;
+
+// One call's usage; `calls` is 0 for the extra shares of a split call (see splitCall)
+export function callUsage(usage: CallTokens, pricing?: ModelPricing, calls = 1): TokenUsage {
+  const inputTokens = usage?.inputTokens ?? 0;
+  const outputTokens = usage?.outputTokens ?? 0;
+  const result: TokenUsage = { calls, inputTokens, outputTokens, totalTokens: usage?.totalTokens ?? inputTokens + outputTokens };
+  if (pricing) result.cost = roundCost(inputTokens * pricing.prompt + outputTokens * pricing.completion);
+  return result;
+}
+
+// Accumulates the calls made for one node (threaded down to callLLM)
+export interface UsageMeter {
+  usage: TokenUsage;
+  add(usage: CallTokens, calls?: number): void;
+}
+
+// One call made for several lenses (single-pass ranking), in even token shares; the remainder
+// goes to the first share, which also carries the call itself so run totals count it once
+export function splitCall(usage: CallTokens, parts: number): Array<Required<NonNullable<CallTokens>>> {
+  const inputTokens = usage?.inputTokens ?? 0;
+  const outputTokens = usage?.outputTokens ?? 0;
+  const totalTokens = usage?.totalTokens ?? inputTokens + outputTokens;
+  const share = (tokens: number, i: number) => Math.floor(tokens / parts) + (i === 0 ? tokens % parts : 0);
+  return Array.from({ length: parts }, (_, i) => ({
+    inputTokens: share(inputTokens, i),
+    outputTokens: share(outputTokens, i),
+    totalTokens: share(totalTokens, i),
+  }));
+}
+
+// Endpoint.pricing or a price table entry; undefined unless both prompt and completion are numbers
+export function parsePricing(raw: Endpoint['pricing'] | ModelPricing | undefined): ModelPricing | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const prompt = Number(raw.prompt);
+  const completion = Number(raw.completion);
+  if (!Number.isFinite(prompt) || !Number.isFinite(completion) || prompt < 0 || completion < 0) return undefined;
+  return { prompt, completion };
+}
+
+// Format: { "<model key or modelId>": { "prompt": 0.0000002, "completion": "0.0000005" } } (USD per token)
+export async function loadPriceTable(filePath: string): Promise<PriceTable> {
+  const raw = await fs.readJson(filePath);
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${filePath}: expected an object mapping model keys to { prompt, completion } prices`);
+  }
+  const table: PriceTable = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const pricing = parsePricing(value as any);
+    if (!pricing) throw new Error(`${filePath}: "${key}" needs numeric "prompt" and "completion" prices (USD per token)`);
+    table[key] = pricing;
+  }
+  return table;
+}
+
+// Run-wide accounting: totals per lens and the budget check done before each node's LLM work
+export interface UsageTracker {
+  pricing?: ModelPricing;
+  budget?: Budget;
+  meter(lens: string): UsageMeter;   // every call added to it also counts for its lens and the run
+  exhausted(): boolean;
+  skipped(): void;
+  report(model: string): UsageReport;
+}
+
+export function createUsageTracker(pricing?: ModelPricing, budget?: Budget): UsageTracker {
+  const total = emptyUsage();
+  const byLens: Record<string, TokenUsage> = {};
+  let skippedNodes = 0;
+  if (budget?.maxCost !== undefined && !pricing) {
+    throw new Error('A cost budget needs the model pricing (models file "pricing", a price table, or OpenRouter endpoints).');
+  }
+
+  return {
+    pricing,
+    budget,
+    meter(lens) {
+      const usage = emptyUsage();
+      return {
+        usage,
+        add(raw, calls) {
+          const call = callUsage(raw, pricing, calls);
+          addUsage(usage, call);
+          addUsage(total, call);
+          addUsage((byLens[lens] ??= emptyUsage()), call);
+        },
+      };
+    },
+    // Checked before a node starts: calls already in flight may overshoot the cap slightly
+    exhausted() {
+      if (budget?.maxTokens !== undefined && total.totalTokens >= budget.maxTokens) return true;
+      if (budget?.maxCost !== undefined && (total.cost ?? 0) >= budget.maxCost) return true;
+      return false;
+    },
+    skipped() {
+      skippedNodes++;
+    },
+    report(model) {
+      const report: UsageReport = { model, ...total, ...(pricing ? { pricing } : {}), byLens };
+      if (budget) report.budget = { ...budget, exhausted: this.exhausted(), skippedNodes };
+      return report;
+    },
+  };
+}
+
+export function formatUsage(usage: TokenUsage): string {
+  const cost = usage.cost !== undefined ? `, $${usage.cost.toFixed(4)}` : '';
+  return `${usage.calls} calls, ${usage.totalTokens} tokens (${usage.inputTokens} in / ${usage.outputTokens} out)${cost}`;
+}
@@ -0,0 +1,105 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { prrs, type PRRSOptions, type PRRSSummaries, type SummaryNode } from './prrs.js';
+import { createIncrementalBase } from './incremental.js';
+import { createFileFilter } from './file-filter.js';
+
+// prrs watch: one full run, then re-runs on file changes. Each pass is an incremental run whose base
+// is the previous pass in memory: only the changed files and their ancestor folders are re-summarized,
+// everything else is carried over. Edits are debounced, and changes made during a pass are batched
+// into the next one (never two passes at once).
+
+export const DEFAULT_DEBOUNCE_MS = 500;
+
+export interface WatchOptions extends PRRSOptions {
+  debounceMs?: number;     // quiet time before a pass starts (default 500)
+  ignorePaths?: string[];  // never trigger a pass (e.g. the rendered output file)
+  onUpdate?: (summaries: PRRSSummaries, changed: string[]) => void | Promise<void>;  // after every pass, the first one with changed = []
+  onError?: (error: unknown) => void;  // a failed pass keeps the previous summaries; a watcher error also ends the watch (default: console.error)
+}
+
+export interface RepoWatcher {
+  summaries(): PRRSSummaries;
+  close(): void;
+}
+
+const hasNode = (node: SummaryNode, abs: string): boolean =>
+  (!!node.path && path.resolve(node.path) === abs) || node.children.some(child => hasNode(child, abs));
+
+export async function watchRepo(folderPath: string, lenses: string[], modelKey: string | undefined, maxDepth: number, options: WatchOptions = {}): Promise<RepoWatcher> {
+  if (!fs.statSync(folderPath).isDirectory()) throw new Error(`prrs watch needs a folder, got "${folderPath}"`);
+  const { debounceMs = DEFAULT_DEBOUNCE_MS, ignorePaths = [], onUpdate, onError = error => console.error('PRRS Error:', (error as Error).message || error), ...runOptions } = options;
+
+  let current = await prrs(folderPath, lenses, modelKey, maxDepth, runOptions);
+  await onUpdate?.(current, []);
+
+  const filter = createFileFilter(folderPath, runOptions);
+  const ignored = new Set(ignorePaths.map(p => path.resolve(p)));
+  // Every folder between the root and the path must be accepted too (files of ignored folders are not)
+  const watched = (abs: string, isDirectory: boolean) => {
+    const rel = path.relative(filter.root, abs);
+    if (!rel || rel.startsWith('..') || path.isAbsolute(rel) || ignored.has(abs)) return false;
+    const parts = rel.split(path.sep);
+    let dir = filter.root;
+    for (const part of parts.slice(0, -1)) {
+      dir = path.join(dir, part);
+      if (!filter.accepts(dir, true)) return false;
+    }
+    return filter.accepts(abs, isDirectory);
+  };
+
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let running = false;
+  let closed = false;
+
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => void flush(), debounceMs);
+  };
+
+  const flush = async () => {
+    if (running || closed || !pending.size) return;  // a running pass reschedules when it ends
+    running = true;
+    const changed = [...pending];
+    pending.clear();
+    try {
+      const incremental = createIncrementalBase(current, changed, 'the last update');
+      current = await prrs(folderPath, lenses, modelKey, maxDepth, { ...runOptions, clearCache: false, incremental });
+      await onUpdate?.(current, changed);
+    } catch (error) {
+      onError(error);
+    } finally {
+      running = false;
+      if (pending.size && !closed) schedule();
+    }
+  };
+
+  const watcher = fs.watch(filter.root, { recursive: true }, (_event, name) => {
+    if (!name) return;
+    const abs = path.resolve(filter.root, name.toString());
+    const stats = fs.statSync(abs, { throwIfNoEntry: false });
+    if (stats) {
+      if (!watched(abs, stats.isDirectory())) return;
+      pending.add(abs);
+    } else {
+      // Deleted: only paths of the current tree matter, and their folder is re-listed (which drops them)
+      if (!Object.values(current).some(root => hasNode(root, abs))) return;
+      pending.add(path.dirname(abs));
+    }
+    schedule();
+  });
+
+  const close = () => {
+    closed = true;
+    clearTimeout(timer);
+    watcher.close();
+  };
+  // ENOSPC (inotify watch limit), the watched folder deleted...: reported like a failed pass, and the watch ends
+  watcher.on('error', error => {
+    onError(new Error(`watching ${filter.root} stopped: ${error.message}`));
+    close();
+  });
+
+  return { summaries: () => current, close };
+}